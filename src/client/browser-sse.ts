@@ -1,132 +1,1033 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { SSEClientTransport, SseError } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport, StreamableHTTPError } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { auth, UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
 import BuildSystemPrompt from "../utils/prompt.js";
-import { MCPTool, MessageContent } from "../types/mcp-sseclient";
-import { SSEConnection } from "../types/mcp-sseclient";
-import OpenAI from 'openai';
+import { BuildFunctionTools, FormatToolResult, FormattedToolResult, ParseToolArguments, ToLocalToolResult, ToolResultSchema } from "../utils/tools.js";
+import { FormatResourceContents } from "../utils/resources.js";
+import { ToolUseParseEvent, ToolUseStreamParser } from "../utils/tool-use-parser.js";
+import { ConvertPromptMessages } from "../utils/messages.js";
+import { ArgumentValidationError, FormatValidationErrors, ValidateToolArguments } from "../utils/schema.js";
+import { ElicitRequestSchema } from "../utils/elicitation.js";
+import { BuildQueryContent, QueryText } from "../utils/attachments.js";
+import { CallToolResult, CreateMessageRequestSchema, Progress, ResourceUpdatedNotificationSchema, ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MCPTool, MessageContent, MessageContentPart, ReasoningBlock, ToolCall, ToolCallMode, ToolUse } from "../types/mcp-sseclient";
+import { ArgumentValidationOptions, MCPClientOptions, MCPServerConfig, SSEConnection, ToolCollision } from "../types/mcp-sseclient";
+import { ConnectionStatus, ConnectionStatusEvent, ConnectionStatusInfo, ReconnectOptions } from "../types/mcp-sseclient";
+import { MCPResource, MCPResourceReadResult, MCPResourceTemplate, QueryOptions, ResourceUpdatedEvent } from "../types/mcp-sseclient";
+import { MCPPrompt, MCPPromptResult, LoopLimits, QueryEvent, TokenUsage } from "../types/mcp-sseclient";
+import { ChatSessionExport, ChatSessionInfo, LLMConfig, LLMProvider, LocalTool, ToolsChangedEvent } from "../types/mcp-sseclient";
+import { AttachmentOptions, ElicitationHandler, QueryPart, SystemPromptOptions, ToolTimeoutOptions } from "../types/mcp-sseclient";
+import { ToolRegistry, ToolRegistryEntry, ToolSource } from "./tool-registry";
+import { ToolApproval } from "./tool-approval";
+import { ToolScheduler } from "./tool-scheduler";
+import { ToolSelector } from "./tool-selector";
+import { SessionStore, toSessionInfo } from "./session-store";
+import { ContextManager } from "./context-manager";
+import { BrowserOAuthProvider } from "./oauth-provider";
+import { SamplingHandler } from "./sampling";
+import { LoopGuard, LoopLimitExceeded, LoopLimitHit } from "./loop-guard";
+import { OpenAIProvider } from "./providers/openai";
+
+// Reason sent to the model for a tool call that repeats an earlier one
+const DUPLICATE_CALL_REASON = "This call repeats the previous call with the same arguments and was not executed again, use its result";
+
+// Service source of the tools registered in the page
+const LOCAL_SERVICE_SOURCE = "local";
+
+// Instructions for summarizing older turns that no longer fit the context window
+const CONTEXT_SUMMARY_PROMPT = "Summarize the following conversation between a user and an assistant that uses tools. Keep the user's goals, decisions, facts learned from tool results and open questions. Answer with the summary only.";
+
+// Messages produced by one tool use, or none when the call was cancelled
+interface ToolOutcome {
+    message?: MessageContent;
+    imageMessage?: MessageContent;
+}
 
 class MCPClient {
-    private openAI: any;
+    private provider?: LLMProvider;
+    private toolCallMode: ToolCallMode = "prompt";
+    private vision = false;
+    private streamUsage = false;
 
     private chatHistory: MessageContent[] = [];
+    private sessions: SessionStore;
+    private contextManager: ContextManager;
     private mcpConnections: SSEConnection[] = [];
+    private toolRegistry: ToolRegistry;
+    private toolsLoaded = false;
+    // Tools listed by each connection at the last refresh
+    private remoteToolSources: ToolSource[] = [];
+    private localTools = new Map<string, LocalTool>();
+    private toolApproval: ToolApproval;
+    private toolScheduler: ToolScheduler;
+    private toolSelector: ToolSelector;
+    private argumentValidation: ArgumentValidationOptions;
+    private sampling?: SamplingHandler;
+    private elicitationHandler?: ElicitationHandler;
+    private toolTimeouts: ToolTimeoutOptions;
+    private systemPromptOptions: SystemPromptOptions;
+    private attachmentOptions: AttachmentOptions;
+    private loopLimits?: LoopLimits;
+    private reconnectOptions: Required<ReconnectOptions>;
+    private statusListeners = new Set<(event: ConnectionStatusEvent) => void>();
+    private resourceListeners = new Set<(event: ResourceUpdatedEvent) => void>();
+    private toolsListeners = new Set<(event: ToolsChangedEvent) => void>();
+    // Service that listed each resource URI, used to route reads and subscriptions
+    private resourceSources = new Map<string, string>();
+    // Service that listed each prompt name, used to route prompt requests
+    private promptSources = new Map<string, string>();
 
     constructor(
         // Accept an object or array of objects with URL and custom headers
-        mcpUrls: (URL | { url: URL, headers?: Record<string, string>, name?: string }) | (URL | { url: URL, headers?: Record<string, string>, name?: string })[],
-        openAIConfig?: {
-            baseUrl?: string,
-            apiKey?: string,
-            model?: string,
-        }
+        mcpUrls: (URL | MCPServerConfig) | (URL | MCPServerConfig)[],
+        llmConfig?: LLMConfig,
+        options?: MCPClientOptions
     ) {
+        // Clients are created with the connections and advertise sampling and elicitation when they are configured
+        if (options?.sampling) {
+            this.sampling = new SamplingHandler(options.sampling, () => this.provider);
+        }
+        this.elicitationHandler = options?.elicitationHandler;
+
         // Handle single URL/config object or array
         const urlConfigArray = Array.isArray(mcpUrls) ? mcpUrls : [mcpUrls];
 
         // Convert different input formats to unified connection configuration array
-        this.mcpConnections = urlConfigArray.map((item, index) => {
-            if (item instanceof URL) {
-                // If it's a direct URL object
-                return {
-                    url: item,
-                    client: new Client({
-                        name: `sse-client-${index}`,
-                        version: '1.0.0'
-                    }),
-                    name: item.hostname // Use hostname as default name
-                };
-            } else {
-                // If it's a configuration object
-                return {
-                    url: item.url,
-                    headers: item.headers || {}, // Store custom headers
-                    client: new Client({
-                        name: `sse-client-${index}`,
-                        version: '1.0.0'
-                    }),
-                    name: item.name || item.url.hostname // Use provided name or default to hostname
-                };
+        this.mcpConnections = urlConfigArray.map((item, index) => this.createConnection(item, index));
+
+        this.chatHistory = []; // Initialize empty chat history
+        this.sessions = new SessionStore(options?.sessionStorage);
+        this.contextManager = new ContextManager(options?.contextWindow, (transcript, signal) => this.summarizeTranscript(transcript, signal));
+
+        this.toolRegistry = new ToolRegistry(options?.toolNamespacing);
+        this.toolApproval = new ToolApproval(options?.toolApproval);
+        this.toolScheduler = new ToolScheduler(options?.parallelToolCalls);
+        this.toolSelector = new ToolSelector(options?.toolSelection);
+        this.argumentValidation = options?.argumentValidation || {};
+        this.toolTimeouts = options?.toolTimeouts || {};
+        this.systemPromptOptions = options?.systemPrompt || {};
+        this.attachmentOptions = options?.attachments || {};
+        this.loopLimits = options?.loopLimits;
+
+        this.reconnectOptions = {
+            maxRetries: 5,
+            initialDelay: 1000,
+            maxDelay: 30000,
+            backoffFactor: 2,
+            ...options?.reconnect
+        };
+
+        // Use the given provider, or the OpenAI-compatible endpoint if API key is provided
+        if (llmConfig?.provider) {
+            this.provider = llmConfig.provider;
+        } else if (llmConfig?.baseUrl && (llmConfig?.apiKey !== undefined)) {
+            this.provider = new OpenAIProvider({
+                apiKey: llmConfig.apiKey,
+                baseUrl: llmConfig.baseUrl,
+                model: llmConfig.model
+            });
+        }
+        if (this.provider) {
+            this.toolCallMode = llmConfig?.toolCallMode || "prompt";
+            this.vision = llmConfig?.vision || false;
+            this.streamUsage = llmConfig?.streamUsage || false;
+        }
+    }
+    /**
+     * Create the connection for a server URL or configuration
+     */
+    private createConnection(item: URL | MCPServerConfig, index: number): SSEConnection {
+        if (item instanceof URL) {
+            // If it's a direct URL object
+            return {
+                url: item,
+                client: this.createClient(index),
+                name: item.hostname, // Use hostname as default name
+                transport: "sse",
+                status: "closed",
+                reconnectAttempts: 0,
+                subscriptions: new Set<string>()
+            };
+        }
+
+        // If it's a configuration object
+        return {
+            url: item.url,
+            headers: item.headers || {}, // Store custom headers
+            client: this.createClient(index),
+            name: item.name || item.url.hostname, // Use provided name or default to hostname
+            transport: item.transport || "sse",
+            status: item.enabled === false ? "disabled" : "closed",
+            reconnectAttempts: 0,
+            subscriptions: new Set<string>(),
+            authProvider: item.authProvider
+        };
+    }
+
+    /**
+     * Create the MCP client for the connection at the given index
+     */
+    private createClient(index: number): Client {
+        const sampling = this.sampling?.enabled ? this.sampling : undefined;
+        const elicitationHandler = this.elicitationHandler;
+        const client = new Client({
+            name: `sse-client-${index}`,
+            version: '1.0.0'
+        }, {
+            capabilities: {
+                ...(sampling ? { sampling: {} } : {}),
+                ...(elicitationHandler ? { elicitation: {} } : {})
             }
         });
 
-        this.chatHistory = []; // Initialize empty chat history
+        // Answer completion requests of the service with the configured LLM
+        if (sampling) {
+            client.setRequestHandler(CreateMessageRequestSchema, (request, extra) => {
+                const conn = this.mcpConnections.find((c) => c.client === client);
+                return sampling.createMessage(conn ? this.getServiceSource(conn) : "", request.params, extra.signal);
+            });
+        }
 
-        // Initialize OpenAI client if API key is provided
-        if (openAIConfig?.baseUrl && (openAIConfig?.apiKey !== undefined)) {
-            this.openAI = new OpenAI({
-                apiKey: openAIConfig.apiKey || '',  // 允许空字符串
-                baseURL: openAIConfig.baseUrl,
-                dangerouslyAllowBrowser: true
+        // Let the app ask the user for input a running tool needs
+        if (elicitationHandler) {
+            client.setRequestHandler(ElicitRequestSchema, (request, extra) => {
+                const conn = this.mcpConnections.find((c) => c.client === client);
+                return elicitationHandler({
+                    serviceSource: conn ? this.getServiceSource(conn) : "",
+                    message: request.params.message,
+                    requestedSchema: request.params.requestedSchema,
+                    signal: extra.signal
+                });
             });
-            this.openAI.apiModel = openAIConfig.model || "gpt-3.5-turbo";
         }
+
+        // Forward updates of subscribed resources
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+            const conn = this.mcpConnections.find((c) => c.client === client);
+            if (conn) {
+                this.emitResourceUpdated({ uri: notification.params.uri, serviceSource: this.getServiceSource(conn) });
+            }
+        });
+
+        // Keep the tool set current when a service changes its tools
+        client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+            const conn = this.mcpConnections.find((c) => c.client === client);
+            if (conn) {
+                await this.refreshConnectionTools(conn);
+            }
+        });
+
+        return client;
     }
+
     /**
      * Connect to all configured SSE services
      * @returns Results of connection attempts
      */
     async connect() {
-        const connectionPromises = this.mcpConnections.map(async (conn) => {
-            try {
-                // Create SSEClientTransport instance with custom HTTP headers
-                const transport = new SSEClientTransport(conn.url, {
-                    requestInit: {
-                        headers: conn.headers || {}
-                    }
-                });
-                await conn.client.connect(transport);
-                return true;
-            } catch (error) {
-                console.error(`Failed to connect to SSE service at ${conn.url}:`, error);
-                return false;
-            }
-        });
+        const connectionPromises = this.mcpConnections
+            .filter((conn) => conn.status !== "disabled")
+            .map((conn) => this.connectServer(conn, this.mcpConnections.indexOf(conn)));
 
         // Wait for all connections to complete
         const results = await Promise.all(connectionPromises);
 
-        // Check if at least one connection succeeded
-        if (!results.some(result => result)) {
+        // Check if at least one connection succeeded, servers may also be added later
+        if (results.length > 0 && !results.some(result => result)) {
             throw new Error("Failed to connect to any SSE service");
         }
 
+        // Build the tool registry once for all connected services
+        await this.refreshTools();
+
         return results;
     }
 
+    /**
+     * Connect a single service and watch its connection
+     * @returns Whether the connection succeeded
+     */
+    private async connectServer(conn: SSEConnection, index: number): Promise<boolean> {
+        this.setConnectionStatus(conn, "connecting");
+        try {
+            try {
+                await this.connectTransport(conn, index);
+            } catch (error) {
+                // A popup authorization finishes in this page, so connect again once it is done
+                if (!(error instanceof UnauthorizedError) || !(await this.finishPopupAuthorization(conn))) {
+                    throw error;
+                }
+                conn.client = this.createClient(index);
+                await this.connectTransport(conn, index);
+            }
+            this.watchConnection(conn, index);
+            this.setConnectionStatus(conn, "connected");
+            return true;
+        } catch (error) {
+            if (error instanceof UnauthorizedError) {
+                // The authorization continues after the redirect back to the page, see finishAuth
+                console.warn(`MCP service at ${conn.url} requires authorization`);
+                this.setConnectionStatus(conn, "unauthorized", error);
+                return false;
+            }
+            console.error(`Failed to connect to MCP service at ${conn.url}:`, error);
+            this.setConnectionStatus(conn, "failed", error);
+            return false;
+        }
+    }
+
+    /**
+     * Exchange the code of a finished popup authorization for tokens
+     * @returns Whether an authorization code was received
+     */
+    private async finishPopupAuthorization(conn: SSEConnection): Promise<boolean> {
+        if (!(conn.authProvider instanceof BrowserOAuthProvider)) {
+            return false;
+        }
+        const pendingCode = conn.authProvider.waitForAuthorizationCode();
+        if (!pendingCode) {
+            return false;
+        }
+        const authorizationCode = await pendingCode;
+        await auth(conn.authProvider, { serverUrl: conn.url, authorizationCode });
+        return true;
+    }
+
+    /**
+     * Finish the OAuth authorization of a server with the code from the redirect back to the page, then connect it
+     * @param name Service source of the server
+     * @param authorizationCode Code returned by the authorization server
+     * @returns Status of the connection
+     */
+    async finishAuth(name: string, authorizationCode: string): Promise<ConnectionStatusInfo> {
+        const conn = this.requireServer(name);
+        if (!conn.authProvider) {
+            throw new Error(`MCP server has no authorization provider: ${name}`);
+        }
+        await auth(conn.authProvider, { serverUrl: conn.url, authorizationCode });
+
+        const index = this.mcpConnections.indexOf(conn);
+        conn.client = this.createClient(index);
+        if (await this.connectServer(conn, index)) {
+            await this.restoreSubscriptions(conn);
+            await this.refreshConnectionTools(conn);
+        }
+        return this.statusInfo(conn);
+    }
+
+    /**
+     * Add a server at runtime and connect it unless it is configured disabled
+     * @returns Status of the new connection
+     */
+    async addServer(config: URL | MCPServerConfig): Promise<ConnectionStatusInfo> {
+        const index = this.mcpConnections.length;
+        const conn = this.createConnection(config, index);
+        if (this.findServer(this.getServiceSource(conn))) {
+            throw new Error(`MCP server already exists: ${this.getServiceSource(conn)}`);
+        }
+        this.mcpConnections.push(conn);
+
+        if (conn.status !== "disabled" && await this.connectServer(conn, index)) {
+            await this.refreshConnectionTools(conn);
+        }
+        return this.statusInfo(conn);
+    }
+
+    /**
+     * Disconnect a server and remove it with its tools, resources and prompts
+     * @param name Service source of the server
+     */
+    async removeServer(name: string): Promise<void> {
+        const conn = this.requireServer(name);
+        this.mcpConnections.splice(this.mcpConnections.indexOf(conn), 1);
+        await this.closeServer(conn, "closed");
+
+        for (const sources of [this.resourceSources, this.promptSources]) {
+            for (const [key, source] of sources) {
+                if (source === name) {
+                    sources.delete(key);
+                }
+            }
+        }
+        await this.refreshConnectionTools(conn);
+    }
+
+    /**
+     * Connect a disabled server and offer its tools again
+     * @param name Service source of the server
+     * @returns Status of the connection
+     */
+    async enableServer(name: string): Promise<ConnectionStatusInfo> {
+        const conn = this.requireServer(name);
+        if (conn.status === "disabled") {
+            if (await this.connectServer(conn, this.mcpConnections.indexOf(conn))) {
+                await this.restoreSubscriptions(conn);
+                await this.refreshConnectionTools(conn);
+            }
+        }
+        return this.statusInfo(conn);
+    }
+
+    /**
+     * Disconnect a server but keep its configuration, its tools are no longer offered to the model
+     * @param name Service source of the server
+     */
+    async disableServer(name: string): Promise<void> {
+        const conn = this.requireServer(name);
+        if (conn.status === "disabled") {
+            return;
+        }
+        await this.closeServer(conn, "disabled");
+        await this.refreshConnectionTools(conn);
+    }
+
+    private findServer(name: string): SSEConnection | undefined {
+        return this.mcpConnections.find((conn) => this.getServiceSource(conn) === name);
+    }
+
+    private requireServer(name: string): SSEConnection {
+        const conn = this.findServer(name);
+        if (!conn) {
+            throw new Error(`MCP server not found: ${name}`);
+        }
+        return conn;
+    }
+
+    /**
+     * Close the client of a connection, the status is set first so the close is not handled as a drop
+     */
+    private async closeServer(conn: SSEConnection, status: "closed" | "disabled") {
+        this.setConnectionStatus(conn, status);
+        const client = conn.client;
+        conn.client = this.createClient(Math.max(0, this.mcpConnections.indexOf(conn)));
+        conn.activeTransport = undefined;
+        try {
+            await client.close();
+        } catch (error) {
+            console.error(`Error disconnecting from ${conn.url}:`, error);
+        }
+    }
+
+    /**
+     * Connect a single service with its configured transport
+     * @param conn Connection to establish
+     * @param index Index of the connection, used to name a replacement client
+     */
+    private async connectTransport(conn: SSEConnection, index: number) {
+        // Custom HTTP headers and authorization are used by both transports
+        const requestInit = {
+            headers: conn.headers || {}
+        };
+        const authProvider = conn.authProvider;
+
+        if (conn.transport === "sse") {
+            await conn.client.connect(new SSEClientTransport(conn.url, { requestInit, authProvider }));
+            conn.activeTransport = "sse";
+            return;
+        }
+
+        try {
+            await conn.client.connect(new StreamableHTTPClientTransport(conn.url, { requestInit, authProvider }));
+            conn.activeTransport = "streamable-http";
+        } catch (error) {
+            // An authorization is under way, falling back to SSE would start another one
+            if (conn.transport !== "auto" || error instanceof UnauthorizedError) {
+                throw error;
+            }
+
+            console.warn(`Streamable HTTP connection to ${conn.url} failed, falling back to SSE:`, error);
+
+            // The failed client is closing asynchronously, so use a fresh one for SSE
+            conn.client = this.createClient(index);
+            await conn.client.connect(new SSEClientTransport(conn.url, { requestInit, authProvider }));
+            conn.activeTransport = "sse";
+        }
+    }
+
+    /**
+     * Watch a connected client and reconnect when its connection drops
+     * @param conn Connection whose current client is watched
+     * @param index Index of the connection, used to name replacement clients
+     */
+    private watchConnection(conn: SSEConnection, index: number) {
+        const client = conn.client;
+
+        client.onerror = (error: Error) => {
+            conn.lastError = error.message;
+
+            if (conn.client === client && this.isConnectionDrop(conn, error)) {
+                void this.reconnect(conn, index);
+            }
+        };
+
+        client.onclose = () => {
+            // Ignore replaced clients and intentional closes
+            if (conn.client === client && conn.status === "connected") {
+                void this.reconnect(conn, index);
+            }
+        };
+    }
+
+    /**
+     * Whether a transport error means the server is gone. The SSE stream cannot resume the session once it errors;
+     * a Streamable HTTP connection never closes itself, so failed requests, an expired session (404),
+     * server errors and a broken event stream count as drops
+     */
+    private isConnectionDrop(conn: SSEConnection, error: Error): boolean {
+        if (conn.activeTransport === "sse") {
+            return error instanceof SseError;
+        }
+        if (error instanceof UnauthorizedError) {
+            return false;
+        }
+        // `fetch` rejects with a TypeError when the server cannot be reached
+        if (error instanceof TypeError || error instanceof StreamableHTTPError) {
+            return true;
+        }
+        return /^Error POSTing to endpoint \(HTTP (404|5\d\d)\)|^SSE stream disconnected|^Failed to reconnect|^Maximum reconnection attempts/.test(error.message);
+    }
+
+    /**
+     * Reconnect a dropped connection with exponential backoff
+     * @param conn Connection to reestablish
+     * @param index Index of the connection, used to name replacement clients
+     */
+    private async reconnect(conn: SSEConnection, index: number) {
+        if (conn.status !== "connected") {
+            return;
+        }
+
+        const { maxRetries, initialDelay, maxDelay, backoffFactor } = this.reconnectOptions;
+
+        // Detach the dropped client before closing it so its close is not handled as a new drop
+        const droppedClient = conn.client;
+        conn.client = this.createClient(index);
+        droppedClient.close().catch(() => { });
+
+        if (maxRetries <= 0) {
+            this.setConnectionStatus(conn, "failed", conn.lastError);
+            await this.refreshTools();
+            return;
+        }
+
+        this.setConnectionStatus(conn, "reconnecting", conn.lastError);
+
+        // Status may change while waiting, e.g. when cleanup() closes the connection
+        const isReconnecting = () => conn.status === "reconnecting";
+
+        for (let attempt = 1; attempt <= maxRetries; attempt++) {
+            const delay = Math.min(initialDelay * Math.pow(backoffFactor, attempt - 1), maxDelay);
+            await new Promise((resolve) => setTimeout(resolve, delay));
+
+            // Stop when the connection was closed in the meantime
+            if (!isReconnecting()) {
+                return;
+            }
+
+            conn.reconnectAttempts = attempt;
+            try {
+                conn.client = this.createClient(index);
+                await this.connectTransport(conn, index);
+                if (!isReconnecting()) {
+                    await conn.client.close();
+                    return;
+                }
+                this.watchConnection(conn, index);
+                conn.reconnectAttempts = 0;
+                this.setConnectionStatus(conn, "connected");
+                await this.restoreSubscriptions(conn);
+                await this.refreshTools();
+                return;
+            } catch (error) {
+                console.error(`Reconnection attempt ${attempt} to ${conn.url} failed:`, error);
+                conn.lastError = error instanceof Error ? error.message : String(error);
+            }
+        }
+
+        this.setConnectionStatus(conn, "failed", conn.lastError);
+        await this.refreshTools();
+    }
+
+    /**
+     * Update the status of a connection and notify listeners of changes
+     */
+    private setConnectionStatus(conn: SSEConnection, status: ConnectionStatus, error?: unknown) {
+        const previousStatus = conn.status;
+        conn.status = status;
+        if (error !== undefined) {
+            conn.lastError = error instanceof Error ? error.message : String(error);
+        }
+
+        if (previousStatus === status) {
+            return;
+        }
+
+        const event: ConnectionStatusEvent = {
+            name: this.getServiceSource(conn),
+            url: conn.url.toString(),
+            status,
+            previousStatus,
+            error: error !== undefined ? conn.lastError : undefined
+        };
+        for (const listener of this.statusListeners) {
+            try {
+                listener(event);
+            } catch (listenerError) {
+                console.error("Connection status listener failed:", listenerError);
+            }
+        }
+    }
+
+    /**
+     * Subscribe to connection status changes
+     * @param listener Called with every status change of any connection
+     * @returns Function that removes the listener
+     */
+    onConnectionStatusChange(listener: (event: ConnectionStatusEvent) => void): () => void {
+        this.statusListeners.add(listener);
+        return () => {
+            this.statusListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Get the current status of every configured connection
+     */
+    getConnectionStatus(): ConnectionStatusInfo[] {
+        return this.mcpConnections.map((conn) => this.statusInfo(conn));
+    }
+
+    private statusInfo(conn: SSEConnection): ConnectionStatusInfo {
+        return {
+            name: this.getServiceSource(conn),
+            url: conn.url.toString(),
+            status: conn.status,
+            transport: conn.activeTransport,
+            lastError: conn.lastError,
+            reconnectAttempts: conn.reconnectAttempts
+        };
+    }
+
     /**
      * List all tools from connected services
      * @returns Merged list of tools, each with source service identification
      */
     async listTools() {
-        const toolsPromises = this.mcpConnections.map(async (conn) => {
+        if (!this.toolsLoaded) {
+            await this.refreshTools();
+        }
+
+        return { tools: this.toolRegistry.list() };
+    }
+
+    /**
+     * Fetch the tool lists from all connected services and rebuild the tool registry
+     * @returns Tool name collisions found across services
+     */
+    async refreshTools(): Promise<ToolCollision[]> {
+        const toolsPromises = this.mcpConnections
+            .filter((conn) => conn.status === "connected")
+            .map(async (conn) => {
+                try {
+                    const response = await conn.client.listTools();
+                    return { connection: conn, serviceSource: this.getServiceSource(conn), tools: response.tools };
+                } catch (error) {
+                    console.error(`Failed to list tools from ${conn.url}:`, error);
+                    return { connection: conn, serviceSource: this.getServiceSource(conn), tools: [] };
+                }
+            });
+
+        // Wait for all tool list requests to complete
+        this.remoteToolSources = await Promise.all(toolsPromises);
+        this.toolsLoaded = true;
+
+        return this.rebuildToolRegistry();
+    }
+
+    /**
+     * Fetch the tool list of one service and rebuild the tool registry,
+     * a service that is not connected no longer contributes tools
+     */
+    private async refreshConnectionTools(conn: SSEConnection): Promise<void> {
+        let tools: any[] = [];
+        if (conn.status === "connected" && this.mcpConnections.includes(conn)) {
             try {
-                const response = await conn.client.listTools();
-                // Add source identification for each tool
-                const tools = response.tools.map((tool: any) => ({
-                    ...tool,
-                    serviceSource: conn.name || conn.url.toString()
-                }));
-                return tools;
+                tools = (await conn.client.listTools()).tools;
             } catch (error) {
                 console.error(`Failed to list tools from ${conn.url}:`, error);
+            }
+        }
+
+        // Keep the tools of other services in connection order
+        this.remoteToolSources = this.mcpConnections
+            .map((c) => c === conn
+                ? { connection: c, serviceSource: this.getServiceSource(c), tools }
+                : this.remoteToolSources.find((source) => source.connection === c))
+            .filter((source): source is ToolSource => source !== undefined && source.tools.length > 0);
+
+        if (this.toolsLoaded) {
+            this.rebuildToolRegistry();
+        }
+    }
+
+    /**
+     * Subscribe to changes of the tools offered to the model
+     * @param listener Called with the current tools after every change
+     * @returns Function that removes the listener
+     */
+    onToolsChanged(listener: (event: ToolsChangedEvent) => void): () => void {
+        this.toolsListeners.add(listener);
+        return () => {
+            this.toolsListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Rebuild the tool registry from the last listed remote tools and the local tools
+     * @returns Tool name collisions found across services
+     */
+    private rebuildToolRegistry(): ToolCollision[] {
+        const previous = new Map(this.toolRegistry.list().map((tool) => [tool.name, JSON.stringify(tool)]));
+        const localTools = [...this.localTools.values()];
+        this.toolRegistry.build([
+            ...this.remoteToolSources,
+            {
+                serviceSource: LOCAL_SERVICE_SOURCE,
+                tools: localTools.map(({ handler, ...tool }) => tool),
+                handlers: new Map(localTools.map((tool) => [tool.name, tool.handler]))
+            }
+        ]);
+
+        const collisions = this.toolRegistry.getCollisions();
+        for (const collision of collisions) {
+            console.warn(`Tool "${collision.name}" is provided by ${collision.serviceSources.join(", ")} and was ${collision.resolution}`);
+        }
+
+        const tools = this.toolRegistry.list();
+        const added = tools.filter((tool) => !previous.has(tool.name)).map((tool) => tool.name);
+        const removed = [...previous.keys()].filter((name) => !tools.some((tool) => tool.name === name));
+        const changed = tools.some((tool) => previous.has(tool.name) && previous.get(tool.name) !== JSON.stringify(tool));
+        if (added.length > 0 || removed.length > 0 || changed) {
+            this.emitToolsChanged({ tools, added, removed });
+        }
+        return collisions;
+    }
+
+    private emitToolsChanged(event: ToolsChangedEvent) {
+        for (const listener of this.toolsListeners) {
+            try {
+                listener(event);
+            } catch (listenerError) {
+                console.error("Tools listener failed:", listenerError);
+            }
+        }
+    }
+
+    /**
+     * Register a tool implemented in the page, it is listed with the service source `local`
+     * and its handler is called directly by the tool loop
+     * @returns Function that unregisters the tool
+     */
+    registerLocalTool(tool: LocalTool): () => void {
+        if (this.localTools.has(tool.name)) {
+            throw new Error(`Local tool already registered: ${tool.name}`);
+        }
+        this.localTools.set(tool.name, tool);
+        this.rebuildToolRegistry();
+        return () => {
+            if (this.localTools.get(tool.name) === tool) {
+                this.localTools.delete(tool.name);
+                this.rebuildToolRegistry();
+            }
+        };
+    }
+
+    /**
+     * Get tool name collisions found when the tool registry was last built
+     */
+    getToolCollisions(): ToolCollision[] {
+        return this.toolRegistry.getCollisions();
+    }
+
+    /**
+     * Name a connection is identified by in tool, resource and status listings
+     */
+    private getServiceSource(conn: SSEConnection): string {
+        return conn.name || conn.url.toString();
+    }
+
+    /**
+     * Connected services whose server advertises the given capability
+     */
+    private connectionsWithCapability(capability: "resources" | "prompts" | "tools"): SSEConnection[] {
+        return this.mcpConnections.filter((conn) =>
+            conn.status === "connected" && !!conn.client.getServerCapabilities()?.[capability]);
+    }
+
+    /**
+     * List all resources from connected services
+     * @returns Merged list of resources, each with source service identification
+     */
+    async listResources(): Promise<{ resources: MCPResource[] }> {
+        const resourcesPromises = this.connectionsWithCapability("resources").map(async (conn) => {
+            try {
+                const response = await conn.client.listResources();
+                const serviceSource = this.getServiceSource(conn);
+                return response.resources.map((resource) => {
+                    this.resourceSources.set(resource.uri, serviceSource);
+                    return { ...resource, serviceSource };
+                });
+            } catch (error) {
+                console.error(`Failed to list resources from ${conn.url}:`, error);
                 return [];
             }
         });
 
-        // Wait for all tool list requests to complete
-        const toolsArrays = await Promise.all(toolsPromises);
+        const resourcesArrays = await Promise.all(resourcesPromises);
+
+        return { resources: resourcesArrays.flat() };
+    }
+
+    /**
+     * List all resource templates from connected services
+     * @returns Merged list of resource templates, each with source service identification
+     */
+    async listResourceTemplates(): Promise<{ resourceTemplates: MCPResourceTemplate[] }> {
+        const templatesPromises = this.connectionsWithCapability("resources").map(async (conn) => {
+            try {
+                const response = await conn.client.listResourceTemplates();
+                return response.resourceTemplates.map((template) => ({
+                    ...template,
+                    serviceSource: this.getServiceSource(conn)
+                }));
+            } catch (error) {
+                console.error(`Failed to list resource templates from ${conn.url}:`, error);
+                return [];
+            }
+        });
+
+        const templatesArrays = await Promise.all(templatesPromises);
+
+        return { resourceTemplates: templatesArrays.flat() };
+    }
+
+    /**
+     * Connections that may provide a resource or prompt
+     * @param capability Capability the server must advertise
+     * @param listedSource Service that listed the resource or prompt, if known
+     * @param serviceSource Service to use, overrides the listed service
+     */
+    private findConnectionsFor(capability: "resources" | "prompts", listedSource?: string, serviceSource?: string): SSEConnection[] {
+        const connections = this.connectionsWithCapability(capability);
+        const source = serviceSource || listedSource;
+        if (source) {
+            return connections.filter((conn) => this.getServiceSource(conn) === source);
+        }
+        return connections;
+    }
+
+    /**
+     * Read a resource from the service that provides it
+     * @param uri Resource URI
+     * @param serviceSource Service to read from, defaults to the service that listed the URI
+     * @returns Resource contents with source service identification
+     */
+    async readResource(uri: string, serviceSource?: string): Promise<MCPResourceReadResult> {
+        const connections = this.findConnectionsFor("resources", this.resourceSources.get(uri), serviceSource);
+        if (connections.length === 0) {
+            throw new Error(`No service provides resource: ${uri}`);
+        }
+
+        let lastError: unknown;
+        for (const conn of connections) {
+            try {
+                const result = await conn.client.readResource({ uri });
+                return { ...result, serviceSource: this.getServiceSource(conn) };
+            } catch (error) {
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Subscribe to updates of a resource, delivered through `onResourceUpdated`
+     * @param uri Resource URI
+     * @param serviceSource Service to subscribe on, defaults to the service that listed the URI
+     */
+    async subscribeResource(uri: string, serviceSource?: string): Promise<void> {
+        const connections = this.findConnectionsFor("resources", this.resourceSources.get(uri), serviceSource)
+            .filter((conn) => conn.client.getServerCapabilities()?.resources?.subscribe);
+        if (connections.length === 0) {
+            throw new Error(`No service supports subscriptions to resource: ${uri}`);
+        }
+
+        let lastError: unknown;
+        for (const conn of connections) {
+            try {
+                await conn.client.subscribeResource({ uri });
+                conn.subscriptions.add(uri);
+                return;
+            } catch (error) {
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Stop receiving updates of a resource
+     * @param uri Resource URI
+     */
+    async unsubscribeResource(uri: string): Promise<void> {
+        const connections = this.mcpConnections.filter((conn) => conn.subscriptions.has(uri));
+        await Promise.all(connections.map(async (conn) => {
+            conn.subscriptions.delete(uri);
+            if (conn.status === "connected") {
+                await conn.client.unsubscribeResource({ uri });
+            }
+        }));
+    }
 
-        // Merge all tool lists
-        const allTools = toolsArrays.flat();
+    /**
+     * Subscribe to updates of subscribed resources
+     * @param listener Called with the URI and service of every updated resource
+     * @returns Function that removes the listener
+     */
+    onResourceUpdated(listener: (event: ResourceUpdatedEvent) => void): () => void {
+        this.resourceListeners.add(listener);
+        return () => {
+            this.resourceListeners.delete(listener);
+        };
+    }
+
+    private emitResourceUpdated(event: ResourceUpdatedEvent) {
+        for (const listener of this.resourceListeners) {
+            try {
+                listener(event);
+            } catch (listenerError) {
+                console.error("Resource update listener failed:", listenerError);
+            }
+        }
+    }
 
-        return { tools: allTools };
+    /**
+     * Subscribe a reconnected client to the resources its connection was subscribed to
+     */
+    private async restoreSubscriptions(conn: SSEConnection) {
+        for (const uri of conn.subscriptions) {
+            try {
+                await conn.client.subscribeResource({ uri });
+            } catch (error) {
+                console.error(`Failed to restore subscription to ${uri} on ${conn.url}:`, error);
+            }
+        }
+    }
+
+    /**
+     * List all prompts from connected services
+     * @returns Merged list of prompts, each with source service identification
+     */
+    async listPrompts(): Promise<{ prompts: MCPPrompt[] }> {
+        const promptsPromises = this.connectionsWithCapability("prompts").map(async (conn) => {
+            try {
+                const response = await conn.client.listPrompts();
+                const serviceSource = this.getServiceSource(conn);
+                return response.prompts.map((prompt) => {
+                    this.promptSources.set(prompt.name, serviceSource);
+                    return { ...prompt, serviceSource };
+                });
+            } catch (error) {
+                console.error(`Failed to list prompts from ${conn.url}:`, error);
+                return [];
+            }
+        });
+
+        const promptsArrays = await Promise.all(promptsPromises);
+
+        return { prompts: promptsArrays.flat() };
+    }
+
+    /**
+     * Get a prompt with its arguments filled in from the service that provides it
+     * @param name Prompt name
+     * @param args Prompt arguments
+     * @param serviceSource Service to get the prompt from, defaults to the service that listed it
+     * @returns Prompt messages with source service identification
+     */
+    async getPrompt(name: string, args?: Record<string, string>, serviceSource?: string): Promise<MCPPromptResult> {
+        if (!serviceSource && !this.promptSources.has(name)) {
+            // Learn which service provides the prompt
+            await this.listPrompts();
+        }
+
+        const connections = this.findConnectionsFor("prompts", this.promptSources.get(name), serviceSource);
+        if (connections.length === 0) {
+            throw new Error(`No service provides prompt: ${name}`);
+        }
+
+        const conn = connections[0];
+        const result = await conn.client.getPrompt({ name, arguments: args });
+        return { ...result, serviceSource: this.getServiceSource(conn) };
+    }
+
+    /**
+     * Build the messages of a new turn: server prompt messages followed by the user message
+     * @param query User's current query, may be empty when starting from a server prompt
+     * @param options Query options with the server prompt and resources to attach
+     */
+    private async buildTurnMessages(query: string | QueryPart[], options?: QueryOptions): Promise<MessageContent[]> {
+        const turnMessages: MessageContent[] = [];
+
+        if (options?.prompt) {
+            const prompt = await this.getPrompt(options.prompt.name, options.prompt.arguments, options.prompt.serviceSource);
+            turnMessages.push(...ConvertPromptMessages(prompt.messages, this.vision));
+        }
+
+        if (query.length > 0 || turnMessages.length === 0 || options?.resources?.length) {
+            turnMessages.push(await this.buildUserMessage(query, options));
+        }
+
+        // Marks where the turn begins, so older turns can be shrunk as a whole
+        if (turnMessages.length > 0) {
+            turnMessages[0].turnStart = true;
+        }
+
+        return turnMessages;
+    }
+
+    /**
+     * Build the user message, adding the contents of attached resources after the query
+     * @param query User's current query, text or parts with images and files
+     * @param options Query options with the resources to attach
+     */
+    private async buildUserMessage(query: string | QueryPart[], options?: QueryOptions): Promise<MessageContent> {
+        const queryContent = await BuildQueryContent(query, this.attachmentOptions);
+        if (typeof queryContent !== "string" && !this.vision && queryContent.some((part) => part.type === "image_url")) {
+            throw new Error(`The model ${this.provider?.model} is not configured as vision-capable and cannot receive images. Set \`vision: true\` in the LLM configuration for models that accept images.`);
+        }
+        if (!options?.resources || options.resources.length === 0) {
+            return { role: "user", content: queryContent };
+        }
+
+        const content: MessageContentPart[] = typeof queryContent === "string" ? [{ type: "text", text: queryContent }] : queryContent;
+        for (const attachment of options.resources) {
+            const { uri, serviceSource } = typeof attachment === "string" ? { uri: attachment, serviceSource: undefined } : attachment;
+            const result = await this.readResource(uri, serviceSource);
+            content.push({
+                type: "text",
+                text: "Here is the content of attached resource: " + uri + "\n" + FormatResourceContents(result.contents)
+            });
+        }
+        return { role: "user", content };
     }
 
     /**
      * Clear chat history to start a new conversation
      */
     clearChatHistory(): void {
-        this.chatHistory = [];
+        this.setChatHistory([]);
     }
 
     /**
@@ -136,35 +1037,120 @@ class MCPClient {
         return [...this.chatHistory]; // Return a copy to prevent external modification
     }
 
+    /**
+     * Replace the chat history and persist it to the current session
+     */
+    private setChatHistory(messages: MessageContent[]) {
+        this.chatHistory = messages;
+        this.sessions.save(messages);
+    }
+
+    /**
+     * Get the id of the session the chat history belongs to
+     */
+    getCurrentSessionId(): string {
+        return this.sessions.currentId;
+    }
+
+    /**
+     * Start a new empty session and make it current
+     */
+    async createSession(name?: string): Promise<ChatSessionInfo> {
+        const session = await this.sessions.create(name);
+        this.chatHistory = [];
+        return toSessionInfo(session);
+    }
+
+    /**
+     * Load a stored session into the chat history
+     */
+    async switchSession(id: string): Promise<ChatSessionInfo> {
+        const session = await this.sessions.switch(id);
+        this.chatHistory = session.messages;
+        return toSessionInfo(session);
+    }
+
+    /**
+     * List the stored sessions, most recently updated first
+     */
+    async listSessions(): Promise<ChatSessionInfo[]> {
+        return this.sessions.list();
+    }
+
+    /**
+     * Delete a stored session, deleting the current session starts a new empty one
+     */
+    async deleteSession(id: string): Promise<void> {
+        const current = await this.sessions.delete(id);
+        this.chatHistory = current.messages;
+    }
+
+    /**
+     * Copy a session up to a message into a new session and make it current
+     * @param messageIndex Index of the last message to keep in the chat history
+     * @param name Name of the new session
+     * @param sessionId Session to fork, defaults to the current session
+     */
+    async forkSession(messageIndex: number, name?: string, sessionId?: string): Promise<ChatSessionInfo> {
+        const session = await this.sessions.fork(messageIndex, name, sessionId);
+        this.chatHistory = session.messages;
+        return toSessionInfo(session);
+    }
+
+    /**
+     * Export a session with its tool calls and results as versioned JSON
+     * @param sessionId Session to export, defaults to the current session
+     */
+    async exportSession(sessionId?: string): Promise<ChatSessionExport> {
+        return this.sessions.export(sessionId);
+    }
+
+    /**
+     * Store an exported session, switch to it with `switchSession`
+     * @param data Export object or its JSON text
+     */
+    async importSession(data: ChatSessionExport | string): Promise<ChatSessionInfo> {
+        return toSessionInfo(await this.sessions.import(data));
+    }
+
     /**
      * Process user query and interact with LLM
-     * @param query User's current query
+     * @param query User's current query, text or parts with images and files
      * @param useHistory Whether to use and update chat history, defaults to true
      * @param maxTokens Maximum number of tokens to generate in the completion
      * @param topP Nucleus sampling parameter (0.0 to 1.0)
      * @param temperature Sampling temperature (0.0 to 2.0)
+     * @param options Additional query options such as attached resources or a server prompt
      * @returns Response from the language model
      */
     async processQuery(
         userSystemPrompt: string,
-        query: string,
+        query: string | QueryPart[],
         useHistory: boolean = true,
         maxTokens?: number,
         topP?: number,
-        temperature?: number
+        temperature?: number,
+        options?: QueryOptions
     ): Promise<string> {
-        if (!this.openAI) {
-            throw new Error("OpenAI API key not provided. Cannot process query.");
+        const provider = this.provider;
+        if (!provider) {
+            throw new Error("No LLM provider configured. Cannot process query.");
         }
 
         // User system prompt
         userSystemPrompt = userSystemPrompt || "";
 
-        // Get tool list from all services
-        const response = await this.listTools();
+        // Build system prompt and request tools from all services
+        const { systemPrompt, tools } = await this.buildToolContext(userSystemPrompt, query, useHistory, options);
+
+        // Server prompt messages and user message with the contents of attached resources
+        const turnMessages = await this.buildTurnMessages(query, options);
 
-        // Build system prompt with tools from all services
-        const systemPrompt = BuildSystemPrompt(userSystemPrompt, response.tools as unknown as MCPTool[]);
+        // Cancels the LLM request and pending tool calls
+        const signal = options?.signal;
+
+        // Limits of the tool loop
+        const guard = new LoopGuard(this.loopLimits, options?.loopLimits);
 
         let messages: MessageContent[];
 
@@ -172,7 +1158,7 @@ class MCPClient {
             // Create new session if not using history or history is empty
             messages = [
                 { role: "system", content: systemPrompt },
-                { role: "user", content: query }
+                ...turnMessages
             ];
         } else {
             // Use existing history
@@ -186,134 +1172,181 @@ class MCPClient {
                 messages.unshift({ role: "system", content: systemPrompt });
             }
 
-            // Add user's new query
-            messages.push({ role: "user", content: query });
+            // Add server prompt messages and user's new query
+            messages.push(...turnMessages);
         }
 
         while (true) {
+            if (signal?.aborted) {
+                this.abortQuery(messages, useHistory, signal);
+            }
+
+            const iterationLimit = guard.startIteration();
+            if (iterationLimit) {
+                this.stopAtLimit(messages, useHistory, iterationLimit);
+            }
+
+            // Shrink older turns that no longer fit the context window, only for this request
+            let requestMessages: MessageContent[];
+            try {
+                requestMessages = await this.contextManager.fit(messages, provider.model, maxTokens, tools, signal);
+            } catch (error) {
+                if (signal?.aborted) {
+                    this.abortQuery(messages, useHistory, signal);
+                }
+                throw error;
+            }
+
             // console.log(`[Calling LLM with query ${JSON.stringify({
-            //     model: this.openAI.apiModel,
+            //     model: provider.model,
             //     messages: messages
             // })}]\n\n`);
 
-            const completion = await this.openAI.chat.completions.create({
-                model: this.openAI.apiModel,
-                messages: messages as any,
-                max_tokens: maxTokens,
-                top_p: topP,
-                temperature: temperature,
-                tools: [],
-            });
+            let completion;
+            try {
+                completion = await provider.complete({
+                    messages: this.toRequestMessages(requestMessages),
+                    maxTokens,
+                    topP,
+                    temperature,
+                    tools,
+                    signal
+                });
+            } catch (error) {
+                if (signal?.aborted) {
+                    this.abortQuery(messages, useHistory, signal, '');
+                }
+                throw error;
+            }
 
-            let assistantMessage = completion.choices[0].message.content || '';
+            const tokenLimit = guard.addUsage(completion.usage);
+
+            let assistantMessage = completion.content;
 
             assistantMessage = assistantMessage.replace(/<think>[\s\S]*?<\/think>/g, '');
 
             // console.log(`[LLM response: ${assistantMessage}]\n\n`);
 
             // Add assistant's response to message history
-            messages.push({
-                role: "assistant",
-                content: assistantMessage
-            });
+            messages.push(this.buildAssistantMessage(assistantMessage, completion.toolCalls, completion.reasoningBlocks));
 
             // Parse tool calls
-            const toolUseList = this.extractToolUses(assistantMessage);
+            const { toolUses: toolUseList, errors: parseErrors } = this.toolCallMode === "function"
+                ? { toolUses: this.extractToolCalls(completion.toolCalls), errors: [] }
+                : this.parseToolUses(assistantMessage);
 
             // If no tool calls, update history and return result
-            if (!toolUseList || toolUseList.length === 0) {
+            if (toolUseList.length === 0 && parseErrors.length === 0) {
                 if (useHistory) {
-                    this.chatHistory = messages; // Update instance chat history
+                    this.setChatHistory(messages); // Update instance chat history
                 }
                 return assistantMessage;
             }
 
-            // console.log(`[Found ${toolUseList.length} tool uses]\n\n`);
-
-            // Process each tool call
-            for (const toolUse of toolUseList) {
-                const toolName = toolUse.name;
-                const toolArgs = toolUse.arguments;
-
-                if (!toolName) {
-                    continue;
-                }
-
-                // console.log(`[Calling tool ${toolName} with args ${JSON.stringify(toolArgs)}]\n\n`);
-
-                try {
-                    // Find client that provides this tool
-                    const clientForTool = await this.findClientForTool(toolName);
+            // Stop before running more tools once the token budget is spent
+            if (tokenLimit) {
+                this.stopAtLimit(messages, useHistory, tokenLimit);
+            }
 
-                    if (!clientForTool) {
-                        throw new Error(`No service provides tool: ${toolName}`);
-                    }
+            // Malformed tool uses go back to the model so it can correct them
+            if (parseErrors.length > 0) {
+                messages.push(this.buildToolParseErrorMessage(parseErrors));
+            }
 
-                    // Execute tool call
-                    const result = await clientForTool.callTool({
-                        name: toolName,
-                        arguments: toolArgs
-                    });
-
-                    // Add tool result to messages
-                    messages.push({
-                        role: "user",
-                        content: [
-                            {
-                                type: "text",
-                                text: "Here is the result of tool call: " + toolName
-                            },
-                            {
-                                type: "text",
-                                text: JSON.stringify(result.content && Array.isArray(result.content) ?
-                                    result.content[0]?.text : result) + "\n\n"
-                            }
-                        ]
-                    });
-                } catch (error) {
-                    // Log error and add error message to messages
-                    console.log(`[Error calling tool ${toolName}: ${error}]\n\n`);
+            // console.log(`[Found ${toolUseList.length} tool uses]\n\n`);
 
-                    messages.push({
-                        role: "user",
-                        content: `The tool call to ${toolName} failed with error: ${error}`
-                    });
-                }
-            }
+            // Run the tool calls and add their results in call order
+            await this.runToolUses(toolUseList, messages, useHistory, guard, options);
         }
     }
 
     /**
      * Process user query and interact with LLM in streaming mode
-     * @param query User's current query
+     * @param query User's current query, text or parts with images and files
      * @param useHistory Whether to use and update chat history, defaults to true
      * @param onChunk Callback function to receive each text chunk
      * @param maxTokens Maximum number of tokens to generate in the completion
      * @param topP Nucleus sampling parameter (0.0 to 1.0)
      * @param temperature Sampling temperature (0.0 to 2.0)
+     * @param options Additional query options such as attached resources or a server prompt
      * @returns Complete response from the language model
     */
     async processQueryStream(
         userSystemPrompt: string,
-        query: string,
+        query: string | QueryPart[],
         useHistory: boolean = true,
         onChunk: (chunk: string) => void,
         maxTokens?: number,
         topP?: number,
-        temperature?: number
+        temperature?: number,
+        options?: QueryOptions
+    ): Promise<string> {
+        // Render events as text: reasoning wrapped in <think> tags, tool results as JSON blocks
+        let reasoningOpen = false;
+        return this.processQueryEvents(userSystemPrompt, query, useHistory, (event) => {
+            switch (event.type) {
+                case "reasoning_delta":
+                    onChunk(reasoningOpen ? event.text : "<think>" + event.text);
+                    reasoningOpen = true;
+                    break;
+                case "text_delta":
+                    if (reasoningOpen) {
+                        reasoningOpen = false;
+                        onChunk("</think>");
+                    }
+                    onChunk(event.text); // Pass each chunk to callback
+                    break;
+                case "tool_result":
+                case "tool_error":
+                    onChunk("\n\n```json\n" + JSON.stringify(event.message) + "\n```\n\n");
+                    break;
+                case "turn_complete":
+                    reasoningOpen = false;
+                    break;
+            }
+        }, maxTokens, topP, temperature, options);
+    }
+
+    /**
+     * Process user query and interact with LLM in streaming mode, reporting progress as typed events
+     * @param query User's current query, text or parts with images and files
+     * @param useHistory Whether to use and update chat history, defaults to true
+     * @param onEvent Callback function to receive each event
+     * @param maxTokens Maximum number of tokens to generate in the completion
+     * @param topP Nucleus sampling parameter (0.0 to 1.0)
+     * @param temperature Sampling temperature (0.0 to 2.0)
+     * @param options Additional query options such as attached resources or a server prompt
+     * @returns Complete response from the language model
+     */
+    async processQueryEvents(
+        userSystemPrompt: string,
+        query: string | QueryPart[],
+        useHistory: boolean = true,
+        onEvent: (event: QueryEvent) => void,
+        maxTokens?: number,
+        topP?: number,
+        temperature?: number,
+        options?: QueryOptions
     ): Promise<string> {
-        if (!this.openAI) {
-            throw new Error("OpenAI API key not provided. Cannot process query.");
+        const provider = this.provider;
+        if (!provider) {
+            throw new Error("No LLM provider configured. Cannot process query.");
         }
 
         // User system prompt
         userSystemPrompt = userSystemPrompt || "";
 
-        // Get tool list from all services
-        const response = await this.listTools();
+        // Build system prompt and request tools from all services
+        const { systemPrompt, tools } = await this.buildToolContext(userSystemPrompt, query, useHistory, options);
 
-        // Build system prompt with tools from all services
-        const systemPrompt = BuildSystemPrompt(userSystemPrompt, response.tools as unknown as MCPTool[]);
+        // Server prompt messages and user message with the contents of attached resources
+        const turnMessages = await this.buildTurnMessages(query, options);
+
+        // Cancels the LLM request and pending tool calls
+        const signal = options?.signal;
+
+        // Limits of the tool loop
+        const guard = new LoopGuard(this.loopLimits, options?.loopLimits);
 
         // console.log(`[System prompt: ${systemPrompt}]\n\n`);
 
@@ -323,7 +1356,7 @@ class MCPClient {
             // Create new session if not using history or history is empty
             messages = [
                 { role: "system", content: systemPrompt },
-                { role: "user", content: query }
+                ...turnMessages
             ];
         } else {
             // Use existing history
@@ -337,227 +1370,763 @@ class MCPClient {
                 messages.unshift({ role: "system", content: systemPrompt });
             }
 
-            // Add user's new query
-            messages.push({ role: "user", content: query });
+            // Add server prompt messages and user's new query
+            messages.push(...turnMessages);
         }
 
-        let fullResponse = '';
         let currentAssistantMessage = '';
 
         while (true) {
+            if (signal?.aborted) {
+                this.abortQuery(messages, useHistory, signal);
+            }
+
+            const iterationLimit = guard.startIteration();
+            if (iterationLimit) {
+                this.stopAtLimit(messages, useHistory, iterationLimit);
+            }
+
+            // Shrink older turns that no longer fit the context window, only for this request
+            let requestMessages: MessageContent[];
+            try {
+                requestMessages = await this.contextManager.fit(messages, provider.model, maxTokens, tools, signal);
+            } catch (error) {
+                if (signal?.aborted) {
+                    this.abortQuery(messages, useHistory, signal);
+                }
+                throw error;
+            }
+
             // console.log(`[Calling LLM with query ${JSON.stringify({
-            //     model: this.openAI.apiModel,
+            //     model: provider.model,
             //     messages: messages,
             //     stream: true
             // })}]\n\n`);
 
-            // Use OpenAI SDK's streaming API
+            // Stream the response from the provider
             currentAssistantMessage = '';
-            const stream = await this.openAI.chat.completions.create({
-                model: this.openAI.apiModel,
-                messages: messages as any,
-                stream: true,
-                max_tokens: maxTokens,
-                top_p: topP,
-                temperature: temperature,
-                tools: [],
-            });
-
-            let reasoning_content_first_find = false;
-            let reasoning_content_last_find = false;
-            for await (const chunk of stream) {
-                const content = chunk.choices[0]?.delta?.content || '';
-                const reasoning_content = chunk.choices[0]?.delta?.reasoning_content;
-                if (content) {
-                    currentAssistantMessage += content;
-                    onChunk(content); // Pass each chunk to callback
+            const streamedToolCalls: ToolCall[] = [];
+            const reasoningBlocks: ReasoningBlock[] = [];
+            let usage: TokenUsage | undefined;
+
+            // In prompt mode tool use blocks are parsed as they arrive and kept out of the text events
+            const parser = this.toolCallMode === "function" ? undefined : new ToolUseStreamParser();
+            const streamedToolUses: ToolUse[] = [];
+            const parseErrors: string[] = [];
+            const handleParseEvents = (events: ToolUseParseEvent[]) => {
+                for (const event of events) {
+                    if (event.type === "text") {
+                        onEvent({ type: "text_delta", text: event.text });
+                    } else if (event.type === "tool_use") {
+                        const toolUse = event.toolUse;
+                        streamedToolUses.push(toolUse);
+                        onEvent({ type: "tool_call_started", name: toolUse.name });
+                        onEvent({ type: "tool_call_args", name: toolUse.name, delta: JSON.stringify(toolUse.arguments) });
+                    } else {
+                        parseErrors.push(event.error);
+                    }
                 }
+            };
 
-                // reasoning_content
-                if (reasoning_content) {
-                    if (!reasoning_content_first_find) {
-                        reasoning_content_first_find = true;
-                        onChunk("<think>" + reasoning_content);
-                    } else {
-                        onChunk(reasoning_content);
+            try {
+                const stream = provider.stream({
+                    messages: this.toRequestMessages(requestMessages),
+                    maxTokens,
+                    topP,
+                    temperature,
+                    tools,
+                    signal,
+                    // Usage is only streamed on request
+                    includeUsage: guard.tracksTokens || this.streamUsage
+                });
+
+                for await (const chunk of stream) {
+                    if (chunk.type === "usage") {
+                        usage = chunk.usage;
+                    } else if (chunk.type === "reasoning") {
+                        onEvent({ type: "reasoning_delta", text: chunk.text });
+                    } else if (chunk.type === "reasoning_block") {
+                        reasoningBlocks.push(chunk.block);
+                    } else if (chunk.type === "text") {
+                        currentAssistantMessage += chunk.text;
+                        if (parser) {
+                            handleParseEvents(parser.push(chunk.text));
+                        } else {
+                            onEvent({ type: "text_delta", text: chunk.text });
+                        }
+                    } else if (chunk.type === "tool_call_start") {
+                        // Native tool calls are keyed by index in later chunks
+                        streamedToolCalls[chunk.index] = { id: chunk.id, type: "function", function: { name: chunk.name, arguments: '' } };
+                        onEvent({ type: "tool_call_started", id: chunk.id, name: chunk.name });
+                    } else if (chunk.type === "tool_call_delta") {
+                        const toolCall = streamedToolCalls[chunk.index];
+                        if (toolCall) {
+                            toolCall.function.arguments += chunk.arguments;
+                            onEvent({ type: "tool_call_args", id: toolCall.id, name: toolCall.function.name, delta: chunk.arguments });
+                        }
                     }
-                } else if (reasoning_content_first_find && !reasoning_content_last_find && content) {
-                    reasoning_content_last_find = true;
-                    onChunk("</think>");
                 }
+            } catch (error) {
+                if (signal?.aborted) {
+                    // Keep the text received before the abort
+                    this.abortQuery(messages, useHistory, signal, currentAssistantMessage.replace(/<think>[\s\S]*?<\/think>/g, ''));
+                }
+                throw error;
+            }
+
+            if (parser) {
+                handleParseEvents(parser.end());
             }
 
             currentAssistantMessage = currentAssistantMessage.replace(/<think>[\s\S]*?<\/think>/g, '');
 
+            if (usage) {
+                onEvent({ type: "usage", usage });
+            }
+            const tokenLimit = guard.addUsage(usage);
+
             // console.log(`[LLM stream response completed: ${currentAssistantMessage}]\n\n`);
 
             // Add assistant's response to message history
-            messages.push({
-                role: "assistant",
-                content: currentAssistantMessage
-            });
+            const toolCalls = streamedToolCalls.filter(Boolean);
+            messages.push(this.buildAssistantMessage(currentAssistantMessage, toolCalls, reasoningBlocks));
 
-            // Parse tool calls
-            const toolUseList = this.extractToolUses(currentAssistantMessage);
+            // Tool calls parsed while streaming
+            const toolUseList = this.toolCallMode === "function"
+                ? this.extractToolCalls(toolCalls)
+                : streamedToolUses;
+
+            onEvent({ type: "turn_complete", content: currentAssistantMessage, toolCalls: toolUseList });
 
             // If no tool calls, update history and return result
-            if (!toolUseList || toolUseList.length === 0) {
+            if (toolUseList.length === 0 && parseErrors.length === 0) {
                 if (useHistory) {
-                    this.chatHistory = messages; // Update instance chat history
+                    this.setChatHistory(messages); // Update instance chat history
                 }
-                fullResponse = currentAssistantMessage;
-                return fullResponse;
+                return currentAssistantMessage;
+            }
+
+            // Stop before running more tools once the token budget is spent
+            if (tokenLimit) {
+                this.stopAtLimit(messages, useHistory, tokenLimit);
+            }
+
+            // Malformed tool uses go back to the model so it can correct them
+            if (parseErrors.length > 0) {
+                const parseErrorMessage = this.buildToolParseErrorMessage(parseErrors);
+                messages.push(parseErrorMessage);
+                onEvent({ type: "tool_error", name: "", arguments: undefined, status: "invalid", error: parseErrors.join("\n"), message: parseErrorMessage });
             }
 
             // console.log(`[Found ${toolUseList.length} tool uses]\n\n`);
 
-            // Process each tool call
-            for (const toolUse of toolUseList) {
-                const toolName = toolUse.name;
-                const toolArgs = toolUse.arguments;
+            // Run the tool calls and add their results in call order
+            await this.runToolUses(toolUseList, messages, useHistory, guard, options, onEvent);
+        }
+    }
+
+    /**
+     * Process user query in streaming mode and iterate over its typed events
+     * @param query User's current query, text or parts with images and files
+     * @param useHistory Whether to use and update chat history, defaults to true
+     * @param maxTokens Maximum number of tokens to generate in the completion
+     * @param topP Nucleus sampling parameter (0.0 to 1.0)
+     * @param temperature Sampling temperature (0.0 to 2.0)
+     * @param options Additional query options such as attached resources or a server prompt
+     * @returns Iterator over the query events, returning the complete response
+     */
+    async *queryEvents(
+        userSystemPrompt: string,
+        query: string | QueryPart[],
+        useHistory: boolean = true,
+        maxTokens?: number,
+        topP?: number,
+        temperature?: number,
+        options?: QueryOptions
+    ): AsyncGenerator<QueryEvent, string> {
+        const queue: QueryEvent[] = [];
+        let wake: (() => void) | undefined;
+        let done = false;
+        let response = '';
+        let failure: { error: unknown } | undefined;
+
+        // Leaving the iterator early cancels the query, the caller's signal still cancels it as well
+        const controller = new AbortController();
+        const callerSignal = options?.signal;
+        const forwardAbort = () => controller.abort(callerSignal?.reason);
+        if (callerSignal?.aborted) {
+            forwardAbort();
+        } else {
+            callerSignal?.addEventListener("abort", forwardAbort, { once: true });
+        }
+
+        this.processQueryEvents(userSystemPrompt, query, useHistory, (event) => {
+            queue.push(event);
+            wake?.();
+        }, maxTokens, topP, temperature, { ...options, signal: controller.signal })
+            .then((result) => { response = result; }, (error) => { failure = { error }; })
+            .finally(() => {
+                done = true;
+                wake?.();
+            });
 
-                if (!toolName) {
+        try {
+            while (true) {
+                if (queue.length > 0) {
+                    yield queue.shift() as QueryEvent;
                     continue;
                 }
+                if (done) {
+                    break;
+                }
+                await new Promise<void>((resolve) => { wake = resolve; });
+                wake = undefined;
+            }
+        } finally {
+            callerSignal?.removeEventListener("abort", forwardAbort);
+            if (!done) {
+                controller.abort();
+            }
+        }
 
-                // console.log(`[Calling tool ${toolName} with args ${JSON.stringify(toolArgs)}]\n\n`);
+        if (failure) {
+            throw failure.error;
+        }
+        return response;
+    }
 
-                try {
-                    // Find client that provides this tool
-                    const clientForTool = await this.findClientForTool(toolName);
+    /**
+     * Call a registered tool on the service that provides it, or run the handler of a local tool
+     * @param registered Registry entry of the tool
+     * @param toolArgs Tool arguments
+     * @param signal Aborts the pending request
+     * @param onProgress Receives the progress notifications of the call
+     * @returns Full tool result, including content types the SDK schema does not know
+     */
+    private async callRegisteredTool(
+        registered: ToolRegistryEntry,
+        toolArgs: any,
+        signal?: AbortSignal,
+        onProgress?: (progress: Progress) => void
+    ): Promise<CallToolResult> {
+        if (registered.handler) {
+            return ToLocalToolResult(await registered.handler(toolArgs, { signal }));
+        }
+        if (!registered.connection) {
+            throw new Error(`No service provides tool: ${registered.tool.name}`);
+        }
 
-                    if (!clientForTool) {
-                        throw new Error(`No service provides tool: ${toolName}`);
-                    }
+        // Call the tool under the name its service knows it by
+        const result = await registered.connection.client.request({
+            method: "tools/call",
+            params: {
+                name: registered.tool.originalName || registered.tool.name,
+                arguments: toolArgs
+            }
+        }, ToolResultSchema, {
+            signal,
+            onprogress: onProgress,
+            timeout: this.toolTimeout(registered.tool),
+            resetTimeoutOnProgress: this.toolTimeouts.resetOnProgress !== false,
+            maxTotalTimeout: this.toolTimeouts.maxTotalTimeout
+        });
+        return result as CallToolResult;
+    }
+
+    /**
+     * Resolve the timeout of a tool, tool timeouts first, then server timeouts
+     */
+    private toolTimeout(tool: MCPTool): number | undefined {
+        const { toolTimeouts = {}, serverTimeouts = {} } = this.toolTimeouts;
+        return toolTimeouts[tool.name]
+            ?? (tool.originalName ? toolTimeouts[tool.originalName] : undefined)
+            ?? (tool.serviceSource ? serverTimeouts[tool.serviceSource] : undefined)
+            ?? this.toolTimeouts.timeout;
+    }
 
-                    // Execute tool call
-                    const result = await clientForTool.callTool({
-                        name: toolName,
-                        arguments: toolArgs
-                    });
-
-                    // Add tool result to messages
-                    const resultMessage: MessageContent = {
-                        role: "user",
-                        content: [
-                            {
-                                type: "text",
-                                text: "Here is the result of tool call: " + toolName
-                            },
-                            {
-                                type: "text",
-                                text: JSON.stringify(result.content && Array.isArray(result.content) ?
-                                    result.content[0]?.text : result)
-                            }
-                        ]
-                    };
-                    messages.push(resultMessage);
-
-                    // Notify user that tool call is completed
-                    const toolCallInfo = "\n\n```json\n" + JSON.stringify(resultMessage) + "\n```\n\n";
-                    onChunk(toolCallInfo);
-                    // fullResponse += toolCallInfo;
+    /**
+     * Run the tool uses of one assistant message and add their results to the messages in call order
+     * @param toolUseList Tool uses of the assistant message
+     * @param messages Messages of the query
+     * @param useHistory Whether the chat history is updated
+     * @param guard Limits of the tool loop
+     * @param options Query options with the abort signal and the tool result callback
+     * @param onEvent Receives the result of each tool call as soon as it is known
+     */
+    private async runToolUses(
+        toolUseList: ToolUse[],
+        messages: MessageContent[],
+        useHistory: boolean,
+        guard: LoopGuard,
+        options?: QueryOptions,
+        onEvent?: (event: QueryEvent) => void
+    ): Promise<void> {
+        const signal = options?.signal;
+        const outcomes: Array<ToolOutcome | Promise<ToolOutcome>> = [];
+        let running: Promise<ToolOutcome>[] = [];
+
+        // Wait for running calls, then add all outcomes in call order with images after all tool messages
+        const flush = async () => {
+            const settled = await Promise.all(outcomes);
+            outcomes.length = 0;
+            for (const outcome of settled) {
+                if (outcome.message) {
+                    messages.push(outcome.message);
+                }
+            }
+            for (const outcome of settled) {
+                if (outcome.imageMessage) {
+                    messages.push(outcome.imageMessage);
+                }
+            }
+        };
 
-                } catch (error) {
-                    // Log error and add error message to messages
-                    console.log(`[Error calling tool ${toolName}: ${error}]\n\n`);
-
-                    messages.push({
-                        role: "user",
-                        content: `The tool call to ${toolName} failed with error: ${error}`
-                    });
-
-                    // Notify user of tool call failure
-                    const errorInfo = "\n\n```json\n" + JSON.stringify({
-                        role: "user",
-                        content: `The tool call to ${toolName} failed with error: ${error}`
-                    }) + "\n```\n\n";
-                    onChunk(errorInfo);
-                    fullResponse += errorInfo;
+        for (const toolUse of toolUseList) {
+            const toolName = toolUse.name;
+            const toolArgs = toolUse.arguments;
+
+            if (!toolName) {
+                continue;
+            }
+
+            if (signal?.aborted) {
+                await flush();
+                this.abortQuery(messages, useHistory, signal);
+            }
+
+            // Repeated identical calls are answered with a reminder instead of running again
+            const toolCallCheck = guard.startToolCall(toolName, toolArgs);
+            if (toolCallCheck.hit) {
+                await flush();
+                this.stopAtLimit(messages, useHistory, toolCallCheck.hit);
+            }
+            if (toolCallCheck.duplicate) {
+                const duplicateMessage = this.buildToolRefusalMessage(toolUse, DUPLICATE_CALL_REASON, "duplicate");
+                outcomes.push({ message: duplicateMessage });
+
+                // Notify user that tool call was skipped
+                onEvent?.({ type: "tool_error", id: toolUse.id, name: toolName, arguments: toolArgs, status: "duplicate", error: DUPLICATE_CALL_REASON, message: duplicateMessage });
+                continue;
+            }
+
+            // console.log(`[Calling tool ${toolName} with args ${JSON.stringify(toolArgs)}]\n\n`);
+
+            // Find the service that provides this tool
+            const registered = this.toolRegistry.resolve(toolName);
+            if (!registered) {
+                outcomes.push(this.failToolUse(toolUse, new Error(`No service provides tool: ${toolName}`), onEvent));
+                continue;
+            }
+
+            // Tools excluded by the allow and deny lists were not offered and are not run
+            if (!this.toolSelector.isAllowed(registered.tool, options?.toolFilter)) {
+                const reason = "This tool is not available for this query";
+                const deniedMessage = this.buildToolRefusalMessage(toolUse, reason);
+                outcomes.push({ message: deniedMessage });
+
+                // Notify user that tool call was denied
+                onEvent?.({ type: "tool_error", id: toolUse.id, name: toolName, arguments: toolArgs, status: "denied", error: reason, message: deniedMessage });
+                continue;
+            }
+
+            // Arguments that do not match the input schema go back to the model with the field errors
+            let validArgs = toolArgs;
+            if (this.argumentValidation.enabled !== false) {
+                const validation = ValidateToolArguments(registered.tool.inputSchema, toolArgs, { coerce: this.argumentValidation.coerce });
+                if (!validation.valid) {
+                    const invalidMessage = this.buildToolRefusalMessage(toolUse, "The arguments do not match the input schema of the tool", "invalid", validation.errors);
+                    outcomes.push({ message: invalidMessage });
+
+                    // Notify user that tool call was rejected
+                    onEvent?.({ type: "tool_error", id: toolUse.id, name: toolName, arguments: toolArgs, status: "invalid", error: FormatValidationErrors(validation.errors), message: invalidMessage });
+                    continue;
+                }
+                validArgs = validation.value;
+            }
+
+            // Ask for approval in call order, a denial goes back to the model as a refusal
+            let approval;
+            try {
+                approval = await this.toolApproval.review(registered.tool, validArgs, signal);
+            } catch (error) {
+                // Cancelling the query also ends the wait for a pending approval
+                if (signal?.aborted) {
+                    await flush();
+                    this.abortQuery(messages, useHistory, signal);
+                }
+                outcomes.push(this.failToolUse(toolUse, error, onEvent));
+                continue;
+            }
+            if (!approval.approved) {
+                const deniedMessage = this.buildToolRefusalMessage(toolUse, approval.reason);
+                outcomes.push({ message: deniedMessage });
+
+                // Notify user that tool call was denied
+                onEvent?.({ type: "tool_error", id: toolUse.id, name: toolName, arguments: toolArgs, status: "denied", error: approval.reason, message: deniedMessage });
+                continue;
+            }
+
+            // Arguments edited by the approval handler are checked like those from the model
+            let approvedArgs = approval.arguments;
+            if (approval.edited && this.argumentValidation.enabled !== false) {
+                const validation = ValidateToolArguments(registered.tool.inputSchema, approvedArgs, { coerce: this.argumentValidation.coerce });
+                if (!validation.valid) {
+                    const invalidMessage = this.buildToolRefusalMessage(toolUse, "The arguments edited on approval do not match the input schema of the tool", "invalid", validation.errors);
+                    outcomes.push({ message: invalidMessage });
+
+                    // Notify user that tool call was rejected
+                    onEvent?.({ type: "tool_error", id: toolUse.id, name: toolName, arguments: approvedArgs, status: "invalid", error: FormatValidationErrors(validation.errors), message: invalidMessage });
+                    continue;
                 }
+                approvedArgs = validation.value;
+            }
+            const execute = () => this.executeToolUse(toolUse, registered, approvedArgs, options, onEvent);
+
+            if (this.toolScheduler.canRunInParallel(registered.tool)) {
+                const task = this.toolScheduler.run(registered.tool.serviceSource || "", execute);
+                running.push(task);
+                outcomes.push(task);
+            } else {
+                // Tools that opt out of parallel execution wait for the calls before them and run alone
+                await Promise.all(running);
+                running = [];
+                outcomes.push(await execute());
             }
         }
+
+        await flush();
     }
 
     /**
-     * Find a client that provides the specified tool
-     * @param toolName Tool name
-     * @returns Client that provides the tool, or null if not found
+     * Execute an approved tool call
+     * @returns Result messages, or no messages when the call was cancelled
      */
-    private async findClientForTool(toolName: string): Promise<Client | null> {
-        for (const conn of this.mcpConnections) {
-            try {
-                const response = await conn.client.listTools();
-                const hasTool = response.tools.some((tool: any) => tool.name === toolName);
-                if (hasTool) {
-                    return conn.client;
-                }
-            } catch (error) {
-                console.error(`Error checking tools in ${conn.url}:`, error);
+    private async executeToolUse(
+        toolUse: ToolUse,
+        registered: ToolRegistryEntry,
+        toolArgs: any,
+        options?: QueryOptions,
+        onEvent?: (event: QueryEvent) => void
+    ): Promise<ToolOutcome> {
+        const signal = options?.signal;
+        if (signal?.aborted) {
+            return {};
+        }
+
+        const serviceSource = registered.tool.serviceSource || "";
+        const onProgress = (progress: Progress) => {
+            const event = {
+                id: toolUse.id,
+                name: toolUse.name,
+                serviceSource,
+                progress: progress.progress,
+                total: progress.total,
+                message: typeof progress.message === "string" ? progress.message : undefined
+            };
+            options?.onToolProgress?.(event);
+            onEvent?.({ type: "tool_progress", ...event });
+        };
+
+        try {
+            const result = await this.callRegisteredTool(registered, toolArgs, signal, onProgress);
+
+            options?.onToolResult?.({
+                id: toolUse.id,
+                name: toolUse.name,
+                arguments: toolArgs,
+                serviceSource,
+                result
+            });
+
+            // Add tool result to messages
+            const { message, imageMessage } = this.buildToolResultMessages(toolUse, FormatToolResult(result, this.vision));
+
+            // Notify user that tool call is completed
+            onEvent?.({ type: "tool_result", id: toolUse.id, name: toolUse.name, arguments: toolArgs, serviceSource, result, message });
+
+            return { message, imageMessage };
+        } catch (error) {
+            // The query is rejected once the running calls have settled
+            if (signal?.aborted) {
+                return {};
             }
+            return this.failToolUse(toolUse, error, onEvent);
         }
-        return null;
     }
 
     /**
-     * Extract tool calls from text
+     * Report a failed tool call back to the model
      */
-    extractToolUses(text: string): Array<{ name: string, arguments: any }> {
-        const toolUses: Array<{ name: string, arguments: any }> = [];
-
-        // Regular expressions to match different tool call formats
-
-        // Format 1: Standard single-line tool calls
-        const pattern1 = /<tool_use>\s*<name>(.*?)<\/name>\s*<arguments>(.*?)<\/arguments>\s*<\/tool_use>/gs;
-        let matches = [...text.matchAll(pattern1)];
-
-        // If no matches, try format 2
-        if (matches.length === 0) {
-            const pattern2 = /<tool_use>[\s\n]*<name>(.*?)<\/name>[\s\n]*<arguments>(.*?)<\/arguments>[\s\n]*<\/tool_use>/gs;
-            matches = [...text.matchAll(pattern2)];
-        }
-
-        // Format 3: More lenient pattern
-        if (matches.length === 0) {
-            const namePattern = /<name>(.*?)<\/name>/gs;
-            const argsPattern = /<arguments>(.*?)<\/arguments>/gs;
-
-            const nameMatches = [...text.matchAll(namePattern)].map(m => m[1].trim());
-            const argsMatches = [...text.matchAll(argsPattern)].map(m => m[1].trim());
-
-            if (nameMatches.length > 0 && nameMatches.length === argsMatches.length) {
-                for (let i = 0; i < nameMatches.length; i++) {
-                    try {
-                        const args = JSON.parse(argsMatches[i]);
-                        toolUses.push({
-                            name: nameMatches[i],
-                            arguments: args
-                        });
-                    } catch (e) {
-                        toolUses.push({
-                            name: nameMatches[i],
-                            arguments: argsMatches[i]
-                        });
-                    }
+    private failToolUse(toolUse: ToolUse, error: unknown, onEvent?: (event: QueryEvent) => void): ToolOutcome {
+        // Log error and add error message to messages
+        console.log(`[Error calling tool ${toolUse.name}: ${error}]\n\n`);
+
+        const errorMessage = this.buildToolErrorMessage(toolUse, error);
+
+        // Notify user of tool call failure
+        onEvent?.({ type: "tool_error", id: toolUse.id, name: toolUse.name, arguments: toolUse.arguments, status: "failed", error: String(error), message: errorMessage });
+
+        return { message: errorMessage };
+    }
+
+    /**
+     * Record an aborted turn so the chat history stays consistent, then reject the query
+     * @param messages Messages of the query
+     * @param useHistory Whether the chat history is updated
+     * @param signal Signal that aborted the query
+     * @param partialMessage Assistant text received before the abort, when the LLM request was aborted
+     */
+    private abortQuery(messages: MessageContent[], useHistory: boolean, signal: AbortSignal, partialMessage?: string): never {
+        if (partialMessage !== undefined) {
+            messages.push({ role: "assistant", content: partialMessage, interrupted: true });
+        } else {
+            const lastAssistant = [...messages].reverse().find((message) => message.role === "assistant");
+            if (lastAssistant) {
+                lastAssistant.interrupted = true;
+            }
+        }
+
+        this.answerPendingToolCalls(messages, "The tool call was cancelled");
+
+        if (useHistory) {
+            this.setChatHistory(messages);
+        }
+
+        if (signal.reason instanceof Error) {
+            throw signal.reason;
+        }
+        const error = new Error("The query was aborted");
+        error.name = "AbortError";
+        throw error;
+    }
+
+    /**
+     * Record a turn stopped at a loop limit so the chat history stays consistent, then reject the query
+     * @param messages Messages of the query
+     * @param useHistory Whether the chat history is updated
+     * @param hit Limit that stopped the loop
+     */
+    private stopAtLimit(messages: MessageContent[], useHistory: boolean, hit: LoopLimitHit): never {
+        this.answerPendingToolCalls(messages, `The tool call was not executed: the query stopped at its ${hit.limit} limit`);
+
+        if (useHistory) {
+            this.setChatHistory(messages);
+        }
+
+        const lastAssistant = [...messages].reverse().find((message) => message.role === "assistant");
+        throw new LoopLimitExceeded(hit, typeof lastAssistant?.content === "string" ? lastAssistant.content : "");
+    }
+
+    /**
+     * Answer native tool calls that never ran, since the next request needs an answer to each of them
+     */
+    private answerPendingToolCalls(messages: MessageContent[], content: string) {
+        const answered = new Set(messages.filter((message) => message.role === "tool").map((message) => message.tool_call_id));
+        for (const message of messages) {
+            for (const toolCall of message.tool_calls || []) {
+                if (!answered.has(toolCall.id)) {
+                    messages.push({ role: "tool", tool_call_id: toolCall.id, content });
                 }
-                return toolUses;
             }
         }
+    }
 
-        // Process matches
-        for (const match of matches) {
-            const name = match[1].trim();
-            const argsStr = match[2].trim();
+    /**
+     * Messages in the shape sent to the LLM, without client-side markers
+     */
+    private toRequestMessages(messages: MessageContent[]): MessageContent[] {
+        return messages.map(({ interrupted, turnStart, ...message }) => message);
+    }
 
-            try {
-                const args = JSON.parse(argsStr);
-                toolUses.push({ name, arguments: args });
-            } catch (e) {
-                toolUses.push({ name, arguments: argsStr });
+    /**
+     * Ask the model for a summary of older turns
+     */
+    private async summarizeTranscript(transcript: string, signal?: AbortSignal): Promise<string> {
+        if (!this.provider) {
+            throw new Error("No LLM provider configured. Cannot summarize.");
+        }
+        const completion = await this.provider.complete({
+            messages: [
+                { role: "system", content: CONTEXT_SUMMARY_PROMPT },
+                { role: "user", content: transcript }
+            ],
+            signal
+        });
+        return completion.content.replace(/<think>[\s\S]*?<\/think>/g, "").trim();
+    }
+
+    /**
+     * Build the system prompt and request tools for the configured tool call mode
+     * @param userSystemPrompt User system prompt
+     * @param query User message, the tools most relevant to it are offered
+     * @param useHistory Whether the tools used in the chat history stay offered
+     * @param options Query options with the tool filter
+     * @returns System prompt and the `tools` parameter for the completion request
+     */
+    private async buildToolContext(userSystemPrompt: string, query: string | QueryPart[], useHistory: boolean, options?: QueryOptions) {
+        // Get tool list from all services and select the tools for this query
+        const response = await this.listTools();
+        const tools = await this.toolSelector.select(
+            response.tools as unknown as MCPTool[],
+            QueryText(query),
+            useHistory ? this.chatHistory : [],
+            options?.toolFilter
+        );
+
+        if (this.toolCallMode === "function") {
+            // Tools are sent natively, the system prompt stays as provided
+            return { systemPrompt: userSystemPrompt, tools: BuildFunctionTools(tools) };
+        }
+
+        // Build system prompt with tools from all services
+        return { systemPrompt: BuildSystemPrompt(userSystemPrompt, tools, this.systemPromptOptions), tools: [] };
+    }
+
+    /**
+     * Build the assistant message, keeping native tool calls and signed reasoning when present
+     */
+    private buildAssistantMessage(content: string, toolCalls?: ToolCall[], reasoningBlocks?: ReasoningBlock[]): MessageContent {
+        const message: MessageContent = { role: "assistant", content };
+        if (toolCalls && toolCalls.length > 0) {
+            message.tool_calls = toolCalls;
+        }
+        if (reasoningBlocks && reasoningBlocks.length > 0) {
+            message.reasoningBlocks = reasoningBlocks;
+        }
+        return message;
+    }
+
+    /**
+     * Build the messages that report a tool result back to the model
+     * @returns Result message, and in function mode a user message with the returned images,
+     * since tool messages cannot carry images
+     */
+    private buildToolResultMessages(toolUse: ToolUse, formatted: FormattedToolResult): { message: MessageContent, imageMessage?: MessageContent } {
+        const heading = formatted.isError
+            ? `The tool call to ${toolUse.name} failed with error:`
+            : "Here is the result of tool call: " + toolUse.name;
+
+        if (this.toolCallMode === "function") {
+            return {
+                message: {
+                    role: "tool",
+                    tool_call_id: toolUse.id,
+                    content: formatted.isError ? heading + "\n" + formatted.text : formatted.text
+                },
+                imageMessage: formatted.images.length > 0 ? {
+                    role: "user",
+                    content: [
+                        { type: "text", text: "Here are the images returned by tool call: " + toolUse.name },
+                        ...formatted.images
+                    ]
+                } : undefined
+            };
+        }
+        return {
+            message: {
+                role: "user",
+                content: [
+                    {
+                        type: "text",
+                        text: heading
+                    },
+                    {
+                        type: "text",
+                        text: formatted.text
+                    },
+                    ...formatted.images
+                ]
             }
+        };
+    }
+
+    /**
+     * Build the structured refusal that reports a tool call that was not executed back to the model
+     * @param status `denied` for calls refused by the approval policy, `duplicate` for repeated calls, `invalid` for arguments that fail validation
+     * @param errors Field-level validation errors
+     */
+    private buildToolRefusalMessage(
+        toolUse: ToolUse,
+        reason: string,
+        status: "denied" | "duplicate" | "invalid" = "denied",
+        errors?: ArgumentValidationError[]
+    ): MessageContent {
+        const refusal = JSON.stringify({ status, tool: toolUse.name, reason, errors });
+        if (this.toolCallMode === "function") {
+            return { role: "tool", tool_call_id: toolUse.id, content: refusal };
+        }
+        return {
+            role: "user",
+            content: [
+                {
+                    type: "text",
+                    text: `The tool call to ${toolUse.name} was not executed:`
+                },
+                {
+                    type: "text",
+                    text: refusal
+                }
+            ]
+        };
+    }
+
+    /**
+     * Build the message that reports tool use blocks that could not be parsed back to the model
+     */
+    private buildToolParseErrorMessage(errors: string[]): MessageContent {
+        return {
+            role: "user",
+            content: "Some tool uses in your last message could not be parsed and were not executed:\n"
+                + errors.map((error) => "- " + error).join("\n")
+                + "\nUse the exact <tool_use> format with a JSON object in <arguments>."
+        };
+    }
+
+    /**
+     * Build the message that reports a failed tool call back to the model
+     */
+    private buildToolErrorMessage(toolUse: ToolUse, error: unknown): MessageContent {
+        const content = `The tool call to ${toolUse.name} failed with error: ${error}`;
+        if (this.toolCallMode === "function") {
+            return { role: "tool", tool_call_id: toolUse.id, content };
         }
+        return { role: "user", content };
+    }
+
+    /**
+     * Extract native tool calls from a completion message
+     */
+    private extractToolCalls(toolCalls?: ToolCall[]): ToolUse[] {
+        return (toolCalls || []).map((toolCall) => ({
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: ParseToolArguments(toolCall.function.arguments)
+        }));
+    }
+
+    /**
+     * Extract tool calls from text
+     */
+    extractToolUses(text: string): ToolUse[] {
+        return this.parseToolUses(text).toolUses;
+    }
 
-        return toolUses;
+    /**
+     * Parse the `<tool_use>` blocks of a complete message
+     * @returns Valid tool uses, and errors for malformed or truncated blocks
+     */
+    private parseToolUses(text: string): { toolUses: ToolUse[], errors: string[] } {
+        const parser = new ToolUseStreamParser();
+        const toolUses: ToolUse[] = [];
+        const errors: string[] = [];
+        for (const event of [...parser.push(text), ...parser.end()]) {
+            if (event.type === "tool_use") {
+                toolUses.push(event.toolUse);
+            } else if (event.type === "tool_use_error") {
+                errors.push(event.error);
+            }
+        }
+        return { toolUses, errors };
     }
 
     /**
@@ -565,13 +2134,15 @@ class MCPClient {
      */
     async cleanup(): Promise<void> {
         const disconnectionPromises = this.mcpConnections.map(async (conn) => {
+            // Mark the connection closed first so the close is not treated as a drop
+            this.setConnectionStatus(conn, "closed");
             try {
                 if (conn.client) {
                     await conn.client.close();
                 }
                 return true;
             } catch (error) {
-                console.error(`Error disconnecting from ${conn.name || conn.url.toString()}:`, error);
+                console.error(`Error disconnecting from ${this.getServiceSource(conn)}:`, error);
                 return false;
             }
         });
@@ -580,9 +2151,13 @@ class MCPClient {
 
         this.chatHistory = [];
 
-        if (this.openAI) {
-            this.openAI = null;
-        }
+        this.remoteToolSources = [];
+        this.toolRegistry.build([]);
+        this.toolsLoaded = false;
+        this.resourceSources.clear();
+        this.promptSources.clear();
+
+        this.provider = undefined;
     }
 
 }
@@ -0,0 +1,215 @@
+import { ContextStrategy, ContextWindowOptions, MessageContent } from "../types/mcp-sseclient";
+
+const DEFAULT_STRATEGIES: ContextStrategy[] = ["truncate-tool-results", "sliding-window"];
+const DEFAULT_RESERVE_TOKENS = 1024;
+const DEFAULT_TOOL_RESULT_CHARS = 500;
+// Rough token cost of an image in a vision request
+const IMAGE_TOKENS = 765;
+
+/**
+ * Estimate the tokens of a message at about four characters per token
+ */
+function estimateMessageTokens(message: MessageContent): number {
+    let chars = 0;
+    let tokens = 4;
+    if (typeof message.content === "string") {
+        chars += message.content.length;
+    } else {
+        for (const part of message.content) {
+            if (part.type === "text") {
+                chars += part.text.length;
+            } else if (part.type === "file") {
+                chars += part.file.file_data.length;
+            } else {
+                tokens += IMAGE_TOKENS;
+            }
+        }
+    }
+    if (message.tool_calls) {
+        chars += JSON.stringify(message.tool_calls).length;
+    }
+    return tokens + Math.ceil(chars / 4);
+}
+
+/**
+ * Render messages as a plain transcript for summarization
+ */
+function renderTranscript(messages: MessageContent[]): string {
+    return messages.map((message) => {
+        const content = typeof message.content === "string"
+            ? message.content
+            : message.content.map((part) => part.type === "text" ? part.text : part.type === "file" ? `[file ${part.file.filename}]` : "[image]").join("\n");
+        const toolCalls = (message.tool_calls || [])
+            .map((toolCall) => `\n[tool call ${toolCall.function.name}: ${toolCall.function.arguments}]`)
+            .join("");
+        return `${message.role}: ${content}${toolCalls}`;
+    }).join("\n\n");
+}
+
+/**
+ * Shrinks the older turns of a conversation until it fits the context window of the model
+ */
+class ContextManager {
+    // Latest summary and the history messages it replaces, reused while those turns stay the oldest
+    private summary?: { covered: MessageContent[], text: string };
+    // History message each truncated copy was made from
+    private originals = new WeakMap<MessageContent, MessageContent>();
+
+    constructor(
+        private options: ContextWindowOptions = {},
+        // Writes a summary of a transcript, used by the `summarize` strategy
+        private summarize?: (transcript: string, signal?: AbortSignal) => Promise<string>
+    ) { }
+
+    /**
+     * Shrink the older turns of a copy of the messages until they fit the token budget,
+     * the messages themselves are left unchanged
+     * @param history Messages of the query, starting with the system prompt
+     * @param model Model the messages are sent to
+     * @param responseTokens Tokens requested for the response
+     * @param tools Tool definitions sent with the messages
+     * @param signal Aborts a running summarization
+     * @returns Messages to send to the model
+     */
+    async fit(history: MessageContent[], model: string, responseTokens?: number, tools?: unknown, signal?: AbortSignal): Promise<MessageContent[]> {
+        const contextTokens = this.options.modelMaxTokens?.[model] ?? this.options.maxTokens;
+        if (!contextTokens) {
+            return history;
+        }
+
+        const toolTokens = tools ? Math.ceil(JSON.stringify(tools).length / 4) : 0;
+        const budget = contextTokens - (responseTokens ?? this.options.reserveTokens ?? DEFAULT_RESERVE_TOKENS) - toolTokens;
+
+        const messages = [...history];
+        for (const strategy of this.options.strategies || DEFAULT_STRATEGIES) {
+            if (this.count(messages) <= budget) {
+                return messages;
+            }
+            if (strategy === "truncate-tool-results") {
+                this.truncateToolResults(messages, budget);
+            } else if (strategy === "summarize") {
+                await this.summarizeOlderTurns(messages, signal);
+            } else if (strategy === "sliding-window") {
+                this.dropOldestTurns(messages, budget);
+            }
+        }
+
+        if (this.count(messages) > budget) {
+            console.warn(`Messages exceed the context budget of ${budget} tokens after applying all strategies`);
+        }
+        return messages;
+    }
+
+    private count(messages: MessageContent[]): number {
+        const estimate = this.options.estimateTokens || estimateMessageTokens;
+        return messages.reduce((total, message) => total + estimate(message), 0);
+    }
+
+    /**
+     * Split the messages into the system prompt, the older turns and the latest turn
+     */
+    private layout(messages: MessageContent[]): { start: number, turns: Array<{ start: number, end: number }> } {
+        const start = messages[0]?.role === "system" ? 1 : 0;
+        let latest = -1;
+        for (let i = messages.length - 1; i >= start; i--) {
+            if (messages[i].turnStart) {
+                latest = i;
+                break;
+            }
+        }
+
+        const turns: Array<{ start: number, end: number }> = [];
+        if (latest <= start) {
+            return { start, turns };
+        }
+        let turnStart = start;
+        for (let i = start + 1; i <= latest; i++) {
+            if (i === latest || messages[i].turnStart) {
+                turns.push({ start: turnStart, end: i });
+                turnStart = i;
+            }
+        }
+        return { start, turns };
+    }
+
+    private truncateToolResults(messages: MessageContent[], budget: number) {
+        const maxChars = this.options.toolResultChars ?? DEFAULT_TOOL_RESULT_CHARS;
+        for (const turn of this.layout(messages).turns) {
+            let answered = false;
+            for (let i = turn.start; i < turn.end; i++) {
+                const message = messages[i];
+                if (message.role === "assistant") {
+                    answered = true;
+                } else if (answered && message.role !== "system") {
+                    // Messages after the first assistant message of a turn carry tool results
+                    const truncated = { ...message, content: this.truncateContent(message.content, maxChars) };
+                    this.originals.set(truncated, this.originalOf(message));
+                    messages[i] = truncated;
+                }
+            }
+            if (this.count(messages) <= budget) {
+                return;
+            }
+        }
+    }
+
+    private truncateContent(content: MessageContent["content"], maxChars: number): string {
+        const text = typeof content === "string"
+            ? content
+            : content.map((part) => part.type === "text" ? part.text : part.type === "file" ? `[file ${part.file.filename} removed]` : "[image removed]").join("\n");
+        if (text.length <= maxChars) {
+            return text;
+        }
+        return `${text.slice(0, maxChars)}\n[truncated ${text.length - maxChars} characters]`;
+    }
+
+    private originalOf(message: MessageContent): MessageContent {
+        return this.originals.get(message) || message;
+    }
+
+    private async summarizeOlderTurns(messages: MessageContent[], signal?: AbortSignal) {
+        const { turns } = this.layout(messages);
+        if (!this.summarize || turns.length === 0) {
+            return;
+        }
+
+        const start = turns[0].start;
+        const end = turns[turns.length - 1].end;
+        const older = messages.slice(start, end);
+
+        // Turns covered by the previous summary are not summarized again, only the turns after them
+        const cached = this.summary;
+        const reused = !!cached && cached.covered.length <= older.length
+            && cached.covered.every((message, i) => this.originalOf(older[i]) === message);
+        const pending = reused ? older.slice(cached!.covered.length) : older;
+
+        try {
+            let text = cached?.text || "";
+            if (!reused || pending.length > 0) {
+                const transcript = renderTranscript(reused ? [this.summaryMessage(cached!.text), ...pending] : pending);
+                text = await this.summarize(transcript, signal);
+                this.summary = { covered: older.map((message) => this.originalOf(message)), text };
+            }
+            messages.splice(start, end - start, this.summaryMessage(text));
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            console.error("Failed to summarize the earlier conversation:", error);
+        }
+    }
+
+    private summaryMessage(text: string): MessageContent {
+        return { role: "user", content: "Summary of the earlier conversation:\n" + text, turnStart: true };
+    }
+
+    private dropOldestTurns(messages: MessageContent[], budget: number) {
+        let turns = this.layout(messages).turns;
+        while (turns.length > 0 && this.count(messages) > budget) {
+            messages.splice(turns[0].start, turns[0].end - turns[0].start);
+            turns = this.layout(messages).turns;
+        }
+    }
+}
+
+export { ContextManager };
\ No newline at end of file
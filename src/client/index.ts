@@ -1 +1,6 @@
-export * from './browser-sse';
\ No newline at end of file
+export * from './browser-sse';
+export { LoopLimitExceeded } from './loop-guard';
+export { MemorySessionStorage, LocalStorageSessionStorage, IndexedDBSessionStorage } from './session-store';
+export * from './providers';
+export { BrowserOAuthProvider } from './oauth-provider';
+export { Bm25ToolRanker } from './tool-selector';
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { LoopLimit, LoopLimits } from "../types/mcp-sseclient";
+
+export interface LoopLimitHit {
+    limit: LoopLimit;
+    max: number;
+    actual: number;
+}
+
+/**
+ * Rejection of a query whose tool loop hit one of its limits
+ */
+class LoopLimitExceeded extends Error {
+    readonly limit: LoopLimit;
+    readonly max: number;
+    readonly actual: number;
+    // Last assistant message before the loop stopped
+    readonly response: string;
+
+    constructor(hit: LoopLimitHit, response: string) {
+        super(`Query stopped: ${hit.limit} limit of ${hit.max} exceeded (${hit.actual})`);
+        this.name = "LoopLimitExceeded";
+        this.limit = hit.limit;
+        this.max = hit.max;
+        this.actual = hit.actual;
+        this.response = response;
+    }
+}
+
+/**
+ * Counts iterations, tool calls, tokens and time of one query against its limits
+ */
+class LoopGuard {
+    private limits: LoopLimits;
+    private startedAt = Date.now();
+    private iterations = 0;
+    private toolCalls = 0;
+    private totalTokens = 0;
+    private duplicateCalls = 0;
+    // Key of the previous tool call, only a call that repeats it right away is a duplicate
+    private lastCall?: string;
+
+    constructor(...limits: Array<LoopLimits | undefined>) {
+        this.limits = Object.assign({}, ...limits);
+    }
+
+    /**
+     * Whether token usage has to be requested from the LLM
+     */
+    get tracksTokens(): boolean {
+        return this.limits.maxTotalTokens !== undefined;
+    }
+
+    /**
+     * Count an LLM request
+     * @returns The limit hit, if any
+     */
+    startIteration(): LoopLimitHit | undefined {
+        this.iterations++;
+        return this.check("iterations", this.limits.maxIterations, this.iterations)
+            || this.checkDuration();
+    }
+
+    /**
+     * Add the token usage reported for an LLM request
+     * @returns The limit hit, if any
+     */
+    addUsage(usage?: { total_tokens?: number }): LoopLimitHit | undefined {
+        this.totalTokens += usage?.total_tokens || 0;
+        return this.check("tokens", this.limits.maxTotalTokens, this.totalTokens);
+    }
+
+    /**
+     * Count a tool call and detect a call that repeats the previous one, when duplicate calls are limited.
+     * Identical calls with other calls in between run again, as the state they read may have changed
+     * @returns The limit hit, if any, and whether the call repeats the previous one
+     */
+    startToolCall(name: string, toolArgs: any): { hit?: LoopLimitHit, duplicate: boolean } {
+        const key = name + "\u0000" + JSON.stringify(toolArgs);
+        const repeated = key === this.lastCall;
+        this.lastCall = key;
+        if (repeated && this.limits.maxDuplicateCalls !== undefined) {
+            this.duplicateCalls++;
+            return {
+                hit: this.check("duplicateCalls", this.limits.maxDuplicateCalls, this.duplicateCalls),
+                duplicate: true
+            };
+        }
+
+        this.toolCalls++;
+        return {
+            hit: this.check("toolCalls", this.limits.maxToolCalls, this.toolCalls) || this.checkDuration(),
+            duplicate: false
+        };
+    }
+
+    private checkDuration(): LoopLimitHit | undefined {
+        return this.check("duration", this.limits.maxDurationMs, Date.now() - this.startedAt);
+    }
+
+    private check(limit: LoopLimit, max: number | undefined, actual: number): LoopLimitHit | undefined {
+        if (max !== undefined && actual > max) {
+            return { limit, max, actual };
+        }
+        return undefined;
+    }
+}
+
+export { LoopGuard, LoopLimitExceeded };
\ No newline at end of file
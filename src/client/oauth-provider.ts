@@ -0,0 +1,223 @@
+import { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import { OAuthClientInformation, OAuthClientInformationFull, OAuthClientMetadata, OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { BrowserOAuthOptions } from "../types/mcp-sseclient";
+
+// Type of the message the popup callback page posts to the opener
+const CALLBACK_MESSAGE_TYPE = "mcp-oauth-callback";
+const DEFAULT_POPUP_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * OAuth 2.1 client with PKCE for one MCP server, for use in the browser.
+ * Metadata discovery, dynamic client registration, the code exchange and token refresh are run by the SDK transports,
+ * this provider keeps their state in storage and shows the authorization page
+ */
+class BrowserOAuthProvider implements OAuthClientProvider {
+    private storage: Storage;
+    private keyPrefix: string;
+    private pendingCode?: Promise<string>;
+
+    constructor(serverUrl: URL | string, private options: BrowserOAuthOptions = {}) {
+        this.storage = options.storage || localStorage;
+        this.keyPrefix = `${options.storageKey || "mcp-oauth:"}${serverUrl.toString()}:`;
+    }
+
+    get redirectUrl(): string {
+        return this.options.redirectUrl || window.location.origin + window.location.pathname;
+    }
+
+    get clientMetadata(): OAuthClientMetadata {
+        return {
+            redirect_uris: [this.redirectUrl],
+            client_name: this.options.clientName || "MCP SSE Client",
+            grant_types: ["authorization_code", "refresh_token"],
+            response_types: ["code"],
+            token_endpoint_auth_method: "none",
+            scope: this.options.scope
+        };
+    }
+
+    clientInformation(): OAuthClientInformation | undefined {
+        if (this.options.clientId) {
+            return { client_id: this.options.clientId };
+        }
+        return this.read("client");
+    }
+
+    saveClientInformation(clientInformation: OAuthClientInformationFull) {
+        this.write("client", clientInformation);
+    }
+
+    tokens(): OAuthTokens | undefined {
+        return this.read("tokens");
+    }
+
+    saveTokens(tokens: OAuthTokens) {
+        this.write("tokens", tokens);
+    }
+
+    saveCodeVerifier(codeVerifier: string) {
+        this.write("verifier", codeVerifier);
+    }
+
+    codeVerifier(): string {
+        const verifier = this.read<string>("verifier");
+        if (!verifier) {
+            throw new Error("No PKCE code verifier saved, start the authorization again");
+        }
+        return verifier;
+    }
+
+    /**
+     * Show the authorization page, adding the scope and a `state` that is checked on the way back
+     */
+    redirectToAuthorization(authorizationUrl: URL) {
+        const state = randomState();
+        this.write("state", state);
+        authorizationUrl.searchParams.set("state", state);
+        if (this.options.scope) {
+            authorizationUrl.searchParams.set("scope", this.options.scope);
+        }
+
+        if (this.options.mode === "popup") {
+            this.pendingCode = this.openPopup(authorizationUrl, state);
+            // Unobserved failures are reported through `waitForAuthorizationCode`
+            this.pendingCode.catch(() => { });
+            return;
+        }
+        window.location.assign(authorizationUrl.toString());
+    }
+
+    /**
+     * Authorization code of the popup opened by the last authorization, if any
+     */
+    waitForAuthorizationCode(): Promise<string> | undefined {
+        const pending = this.pendingCode;
+        this.pendingCode = undefined;
+        return pending;
+    }
+
+    /**
+     * Read the authorization code from the page the authorization server redirected back to
+     * and remove the OAuth parameters from the address bar
+     * @returns The code, or undefined when the page is not an authorization callback
+     */
+    handleRedirectCallback(url: string = window.location.href): string | undefined {
+        const callbackUrl = new URL(url);
+        const code = callbackUrl.searchParams.get("code");
+        const error = callbackUrl.searchParams.get("error");
+        if (!code && !error) {
+            return undefined;
+        }
+
+        const expectedState = this.read<string>("state");
+        this.remove("state");
+        for (const param of ["code", "state", "error", "error_description"]) {
+            callbackUrl.searchParams.delete(param);
+        }
+        if (url === window.location.href) {
+            window.history.replaceState(window.history.state, "", callbackUrl.toString());
+        }
+
+        if (error) {
+            throw new Error(`Authorization failed: ${new URL(url).searchParams.get("error_description") || error}`);
+        }
+        if (!expectedState || new URL(url).searchParams.get("state") !== expectedState) {
+            throw new Error("Authorization callback state does not match, the authorization was not started by this page");
+        }
+        return code || undefined;
+    }
+
+    /**
+     * Remove the stored tokens and client registration
+     */
+    clear() {
+        for (const key of ["client", "tokens", "verifier", "state"]) {
+            this.remove(key);
+        }
+    }
+
+    /**
+     * Run on the popup callback page: pass the authorization result to the opener and close the popup
+     */
+    static completePopupAuthorization() {
+        if (!window.opener) {
+            return;
+        }
+        const params = new URL(window.location.href).searchParams;
+        window.opener.postMessage({
+            type: CALLBACK_MESSAGE_TYPE,
+            code: params.get("code"),
+            state: params.get("state"),
+            error: params.get("error_description") || params.get("error")
+        }, window.location.origin);
+        window.close();
+    }
+
+    private openPopup(authorizationUrl: URL, state: string): Promise<string> {
+        const popup = window.open(authorizationUrl.toString(), "mcp-oauth", this.options.popupFeatures || "width=600,height=700");
+        if (!popup) {
+            return Promise.reject(new Error("The authorization popup was blocked"));
+        }
+
+        return new Promise((resolve, reject) => {
+            let settled = false;
+            const finish = () => {
+                settled = true;
+                window.removeEventListener("message", onMessage);
+                clearInterval(closedCheck);
+                clearTimeout(timeout);
+                this.remove("state");
+            };
+            const onMessage = (event: MessageEvent) => {
+                if (event.origin !== window.location.origin || event.data?.type !== CALLBACK_MESSAGE_TYPE || event.data.state !== state) {
+                    return;
+                }
+                finish();
+                if (event.data.error || !event.data.code) {
+                    reject(new Error(`Authorization failed: ${event.data.error || "no authorization code"}`));
+                } else {
+                    resolve(event.data.code);
+                }
+            };
+            const closedCheck = setInterval(() => {
+                if (popup.closed) {
+                    clearInterval(closedCheck);
+                    // The callback message may still be on its way when the popup closes itself
+                    setTimeout(() => {
+                        if (!settled) {
+                            finish();
+                            reject(new Error("The authorization popup was closed"));
+                        }
+                    }, 1000);
+                }
+            }, 500);
+            const timeout = setTimeout(() => {
+                finish();
+                popup.close();
+                reject(new Error("The authorization timed out"));
+            }, this.options.popupTimeout || DEFAULT_POPUP_TIMEOUT);
+            window.addEventListener("message", onMessage);
+        });
+    }
+
+    private read<T>(key: string): T | undefined {
+        const raw = this.storage.getItem(this.keyPrefix + key);
+        return raw ? JSON.parse(raw) : undefined;
+    }
+
+    private write(key: string, value: unknown) {
+        this.storage.setItem(this.keyPrefix + key, JSON.stringify(value));
+    }
+
+    private remove(key: string) {
+        this.storage.removeItem(this.keyPrefix + key);
+    }
+}
+
+function randomState(): string {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export { BrowserOAuthProvider };
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk, MessageContent, ReasoningBlock, TokenUsage, ToolCall } from "../../types/mcp-sseclient";
+import { parseDataUrl, postJSON, readServerSentEvents } from "./http";
+
+export interface AnthropicProviderConfig {
+    apiKey: string;
+    model: string;
+    // Defaults to https://api.anthropic.com
+    baseUrl?: string;
+    // Tokens requested when the query sets no `maxTokens`, the Messages API requires a value
+    defaultMaxTokens?: number;
+    // Budget for extended thinking, which streams as reasoning; `max_tokens` is raised above it and
+    // `temperature` and `topP` are not sent, as the API rejects them with thinking
+    thinkingBudgetTokens?: number;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+class AnthropicProvider implements LLMProvider {
+    readonly model: string;
+
+    constructor(private config: AnthropicProviderConfig) {
+        this.model = config.model;
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const response = await this.send(request, false);
+        const body = await response.json();
+
+        let content = "";
+        let reasoning = "";
+        const reasoningBlocks: ReasoningBlock[] = [];
+        const toolCalls: ToolCall[] = [];
+        for (const block of body.content || []) {
+            if (block.type === "text") {
+                content += block.text;
+            } else if (block.type === "thinking") {
+                reasoning += block.thinking;
+                reasoningBlocks.push({ type: "thinking", thinking: block.thinking, signature: block.signature });
+            } else if (block.type === "redacted_thinking") {
+                reasoningBlocks.push({ type: "redacted_thinking", data: block.data });
+            } else if (block.type === "tool_use") {
+                toolCalls.push({ id: block.id, type: "function", function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } });
+            }
+        }
+        return { content, reasoning: reasoning || undefined, reasoningBlocks, toolCalls, usage: this.toUsage(body.usage) };
+    }
+
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+        const response = await this.send(request, true);
+
+        // Input tokens are reported when the message starts, output tokens when it ends
+        let inputTokens = 0;
+        // Thinking blocks are complete with their signature when they stop
+        const thinkingBlocks = new Map<number, { type: "thinking", thinking: string, signature: string }>();
+        for await (const { event, data } of readServerSentEvents(response)) {
+            const payload = JSON.parse(data);
+            if (event === "error") {
+                throw new Error(`Anthropic stream error: ${payload.error?.message || data}`);
+            }
+            if (event === "message_start") {
+                inputTokens = payload.message?.usage?.input_tokens || 0;
+            } else if (event === "content_block_start" && payload.content_block?.type === "tool_use") {
+                yield { type: "tool_call_start", index: payload.index, id: payload.content_block.id, name: payload.content_block.name };
+            } else if (event === "content_block_start" && payload.content_block?.type === "thinking") {
+                thinkingBlocks.set(payload.index, { type: "thinking", thinking: "", signature: "" });
+            } else if (event === "content_block_start" && payload.content_block?.type === "redacted_thinking") {
+                yield { type: "reasoning_block", block: { type: "redacted_thinking", data: payload.content_block.data } };
+            } else if (event === "content_block_stop" && thinkingBlocks.has(payload.index)) {
+                yield { type: "reasoning_block", block: thinkingBlocks.get(payload.index)! };
+                thinkingBlocks.delete(payload.index);
+            } else if (event === "content_block_delta") {
+                const delta = payload.delta;
+                const thinkingBlock = thinkingBlocks.get(payload.index);
+                if (delta.type === "text_delta") {
+                    yield { type: "text", text: delta.text };
+                } else if (delta.type === "thinking_delta") {
+                    if (thinkingBlock) {
+                        thinkingBlock.thinking += delta.thinking;
+                    }
+                    yield { type: "reasoning", text: delta.thinking };
+                } else if (delta.type === "signature_delta" && thinkingBlock) {
+                    thinkingBlock.signature += delta.signature;
+                } else if (delta.type === "input_json_delta" && delta.partial_json) {
+                    yield { type: "tool_call_delta", index: payload.index, arguments: delta.partial_json };
+                }
+            } else if (event === "message_delta" && payload.usage) {
+                const prompt = inputTokens;
+                const completion = payload.usage.output_tokens || 0;
+                yield { type: "usage", usage: { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion } };
+            }
+        }
+    }
+
+    private send(request: LLMRequest, stream: boolean): Promise<Response> {
+        const system = request.messages
+            .filter((message) => message.role === "system")
+            .map((message) => this.textOf(message))
+            .join("\n\n");
+
+        const budgetTokens = this.config.thinkingBudgetTokens;
+        const maxTokens = request.maxTokens || this.config.defaultMaxTokens || 4096;
+        const body: Record<string, unknown> = {
+            model: this.model,
+            // With thinking `max_tokens` covers the thinking budget and the answer, so it has to exceed the budget
+            max_tokens: budgetTokens && maxTokens <= budgetTokens ? budgetTokens + maxTokens : maxTokens,
+            system: system || undefined,
+            messages: this.toAnthropicMessages(request.messages),
+            temperature: budgetTokens ? undefined : request.temperature,
+            top_p: budgetTokens ? undefined : request.topP,
+            stream
+        };
+        if (request.tools && request.tools.length > 0) {
+            body.tools = request.tools.map((tool) => ({
+                name: tool.function.name,
+                description: tool.function.description,
+                input_schema: tool.function.parameters
+            }));
+        }
+        if (budgetTokens) {
+            body.thinking = { type: "enabled", budget_tokens: budgetTokens };
+        }
+
+        return postJSON(`${this.config.baseUrl || "https://api.anthropic.com"}/v1/messages`, body, {
+            "x-api-key": this.config.apiKey,
+            "anthropic-version": ANTHROPIC_VERSION,
+            "anthropic-dangerous-direct-browser-access": "true"
+        }, request.signal);
+    }
+
+    /**
+     * Translate chat messages to Messages API turns: tool results become `tool_result` blocks of a user turn,
+     * native tool calls become `tool_use` blocks after the thinking blocks that precede them,
+     * and consecutive turns of the same role are merged
+     */
+    private toAnthropicMessages(messages: MessageContent[]): Array<{ role: "user" | "assistant", content: any[] }> {
+        const turns: Array<{ role: "user" | "assistant", content: any[] }> = [];
+        for (const message of messages) {
+            if (message.role === "system") {
+                continue;
+            }
+
+            const role: "user" | "assistant" = message.role === "assistant" ? "assistant" : "user";
+            let blocks: any[];
+            if (message.role === "tool") {
+                blocks = [{ type: "tool_result", tool_use_id: message.tool_call_id, content: this.textOf(message) }];
+            } else {
+                blocks = [...(message.reasoningBlocks || []), ...this.toContentBlocks(message)];
+                for (const toolCall of message.tool_calls || []) {
+                    let input = {};
+                    try {
+                        input = JSON.parse(toolCall.function.arguments || "{}");
+                    } catch (e) {
+                        // Arguments that are not JSON were already reported back to the model
+                    }
+                    blocks.push({ type: "tool_use", id: toolCall.id, name: toolCall.function.name, input });
+                }
+            }
+            if (blocks.length === 0) {
+                continue;
+            }
+
+            const last = turns[turns.length - 1];
+            if (last && last.role === role) {
+                last.content.push(...blocks);
+            } else {
+                turns.push({ role, content: blocks });
+            }
+        }
+        return turns;
+    }
+
+    private toContentBlocks(message: MessageContent): any[] {
+        if (typeof message.content === "string") {
+            return message.content ? [{ type: "text", text: message.content }] : [];
+        }
+        return message.content.flatMap((part): any[] => {
+            if (part.type === "text") {
+                return part.text ? [{ type: "text", text: part.text }] : [];
+            }
+            if (part.type === "file") {
+                // PDFs are sent as documents, text files were already inlined as text
+                const file = parseDataUrl(part.file.file_data);
+                return file?.mediaType === "application/pdf"
+                    ? [{ type: "document", title: part.file.filename, source: { type: "base64", media_type: file.mediaType, data: file.data } }]
+                    : [{ type: "text", text: `[Attached file ${part.file.filename} is not supported by this model]` }];
+            }
+            const image = parseDataUrl(part.image_url.url);
+            return [image
+                ? { type: "image", source: { type: "base64", media_type: image.mediaType, data: image.data } }
+                : { type: "image", source: { type: "url", url: part.image_url.url } }];
+        });
+    }
+
+    private textOf(message: MessageContent): string {
+        if (typeof message.content === "string") {
+            return message.content;
+        }
+        return message.content.map((part) => part.type === "text" ? part.text : "").join("\n");
+    }
+
+    private toUsage(usage?: { input_tokens?: number, output_tokens?: number }): TokenUsage | undefined {
+        if (!usage) {
+            return undefined;
+        }
+        const prompt = usage.input_tokens || 0;
+        const completion = usage.output_tokens || 0;
+        return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+    }
+}
+
+export { AnthropicProvider };
\ No newline at end of file
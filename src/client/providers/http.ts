@@ -0,0 +1,80 @@
+/**
+ * Send a JSON request and fail with the response body when the status is not ok
+ */
+async function postJSON(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body: JSON.stringify(body),
+        signal
+    });
+    if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new Error(`Request to ${url} failed with status ${response.status}: ${text}`);
+    }
+    return response;
+}
+
+/**
+ * Read the lines of a streamed response body
+ */
+async function* readLines(response: Response): AsyncIterable<string> {
+    if (!response.body) {
+        throw new Error("Response has no body to stream");
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split(/\r?\n/);
+            buffer = lines.pop() || "";
+            yield* lines;
+        }
+        buffer += decoder.decode();
+        if (buffer) {
+            yield buffer;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Read the events of a server-sent events response
+ */
+async function* readServerSentEvents(response: Response): AsyncIterable<{ event: string, data: string }> {
+    let event = "";
+    let data: string[] = [];
+    for await (const line of readLines(response)) {
+        if (line === "") {
+            if (data.length > 0) {
+                yield { event: event || "message", data: data.join("\n") };
+            }
+            event = "";
+            data = [];
+        } else if (line.startsWith("event:")) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+            data.push(line.slice(5).replace(/^ /, ""));
+        }
+    }
+    if (data.length > 0) {
+        yield { event: event || "message", data: data.join("\n") };
+    }
+}
+
+/**
+ * Split a data URL into its media type and base64 data
+ */
+function parseDataUrl(url: string): { mediaType: string, data: string } | undefined {
+    const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+    return match ? { mediaType: match[1], data: match[2] } : undefined;
+}
+
+export { postJSON, readLines, readServerSentEvents, parseDataUrl };
\ No newline at end of file
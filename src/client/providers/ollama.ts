@@ -0,0 +1,145 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk, MessageContent, TokenUsage, ToolCall } from "../../types/mcp-sseclient";
+import { parseDataUrl, postJSON, readLines } from "./http";
+
+export interface OllamaProviderConfig {
+    model: string;
+    // Defaults to http://localhost:11434
+    baseUrl?: string;
+    // Let thinking models return their reasoning separately
+    think?: boolean;
+}
+
+/**
+ * Provider for the Ollama chat API
+ */
+class OllamaProvider implements LLMProvider {
+    readonly model: string;
+    // Ollama tool calls have no ids, the client needs ids that are unique within a conversation
+    private toolCallIds = 0;
+
+    constructor(private config: OllamaProviderConfig) {
+        this.model = config.model;
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const response = await this.send(request, false);
+        const body = await response.json();
+        return {
+            content: body.message?.content || "",
+            reasoning: body.message?.thinking || undefined,
+            toolCalls: this.toToolCalls(body.message?.tool_calls),
+            usage: this.toUsage(body)
+        };
+    }
+
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+        const response = await this.send(request, true);
+
+        // Ollama sends each tool call complete in a single chunk
+        let toolCallCount = 0;
+        for await (const line of readLines(response)) {
+            if (!line.trim()) {
+                continue;
+            }
+            const chunk = JSON.parse(line);
+            if (chunk.error) {
+                throw new Error(`Ollama stream error: ${chunk.error}`);
+            }
+            if (chunk.message?.thinking) {
+                yield { type: "reasoning", text: chunk.message.thinking };
+            }
+            if (chunk.message?.content) {
+                yield { type: "text", text: chunk.message.content };
+            }
+            for (const toolCall of this.toToolCalls(chunk.message?.tool_calls)) {
+                const index = toolCallCount++;
+                yield { type: "tool_call_start", index, id: toolCall.id, name: toolCall.function.name };
+                yield { type: "tool_call_delta", index, arguments: toolCall.function.arguments };
+            }
+            if (chunk.done) {
+                const usage = this.toUsage(chunk);
+                if (usage) {
+                    yield { type: "usage", usage };
+                }
+            }
+        }
+    }
+
+    private send(request: LLMRequest, stream: boolean): Promise<Response> {
+        const body: Record<string, unknown> = {
+            model: this.model,
+            messages: request.messages.map((message) => this.toOllamaMessage(message)),
+            stream,
+            options: {
+                num_predict: request.maxTokens,
+                top_p: request.topP,
+                temperature: request.temperature
+            }
+        };
+        if (request.tools && request.tools.length > 0) {
+            body.tools = request.tools;
+        }
+        if (this.config.think !== undefined) {
+            body.think = this.config.think;
+        }
+        return postJSON(`${this.config.baseUrl || "http://localhost:11434"}/api/chat`, body, {}, request.signal);
+    }
+
+    /**
+     * Ollama messages carry text content, base64 images and tool call arguments as objects
+     */
+    private toOllamaMessage(message: MessageContent): Record<string, unknown> {
+        const result: Record<string, unknown> = { role: message.role };
+        if (typeof message.content === "string") {
+            result.content = message.content;
+        } else {
+            // Ollama accepts no files, the model learns that one was attached
+            result.content = message.content
+                .map((part) => part.type === "text" ? part.text : part.type === "file" ? `[Attached file ${part.file.filename} is not supported by this model]` : "")
+                .filter(Boolean)
+                .join("\n");
+            const images = message.content
+                .map((part) => part.type === "image_url" ? parseDataUrl(part.image_url.url)?.data : undefined)
+                .filter(Boolean);
+            if (images.length > 0) {
+                result.images = images;
+            }
+        }
+        if (message.tool_calls) {
+            result.tool_calls = message.tool_calls.map((toolCall) => {
+                let args = {};
+                try {
+                    args = JSON.parse(toolCall.function.arguments || "{}");
+                } catch (e) {
+                    // Arguments that are not JSON were already reported back to the model
+                }
+                return { function: { name: toolCall.function.name, arguments: args } };
+            });
+        }
+        return result;
+    }
+
+    private toToolCalls(toolCalls: Array<{ function: { name: string, arguments: unknown } }> | undefined): ToolCall[] {
+        return (toolCalls || []).map((toolCall) => ({
+            id: `call_${this.toolCallIds++}`,
+            type: "function",
+            function: {
+                name: toolCall.function.name,
+                arguments: typeof toolCall.function.arguments === "string"
+                    ? toolCall.function.arguments
+                    : JSON.stringify(toolCall.function.arguments ?? {})
+            }
+        }));
+    }
+
+    private toUsage(body: { prompt_eval_count?: number, eval_count?: number }): TokenUsage | undefined {
+        if (body.prompt_eval_count === undefined && body.eval_count === undefined) {
+            return undefined;
+        }
+        const prompt = body.prompt_eval_count || 0;
+        const completion = body.eval_count || 0;
+        return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+    }
+}
+
+export { OllamaProvider };
\ No newline at end of file
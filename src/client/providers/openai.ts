@@ -0,0 +1,126 @@
+import OpenAI from 'openai';
+import { ChatCompletionContentPartText, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk, MessageContent } from "../../types/mcp-sseclient";
+
+// Reasoning that compatible endpoints such as DeepSeek add to messages and deltas, not part of the OpenAI API
+type ReasoningContent = { reasoning_content?: string | null };
+
+export interface OpenAIProviderConfig {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+}
+
+/**
+ * Provider for the OpenAI chat completions API and compatible endpoints
+ */
+class OpenAIProvider implements LLMProvider {
+    readonly model: string;
+    private client: OpenAI;
+
+    constructor(config: OpenAIProviderConfig) {
+        this.client = new OpenAI({
+            apiKey: config.apiKey || '',  // 允许空字符串
+            baseURL: config.baseUrl,
+            dangerouslyAllowBrowser: true
+        });
+        this.model = config.model || "gpt-3.5-turbo";
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const completion = await this.client.chat.completions.create({
+            model: this.model,
+            messages: this.toOpenAIMessages(request),
+            max_tokens: request.maxTokens,
+            top_p: request.topP,
+            temperature: request.temperature,
+            tools: request.tools,
+        }, { signal: request.signal });
+
+        const message = completion.choices[0].message;
+        return {
+            content: message.content || '',
+            // Reasoning models served through compatible endpoints return their reasoning separately
+            reasoning: (message as ReasoningContent).reasoning_content || undefined,
+            toolCalls: message.tool_calls || [],
+            usage: completion.usage || undefined
+        };
+    }
+
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+        const stream = await this.client.chat.completions.create({
+            model: this.model,
+            messages: this.toOpenAIMessages(request),
+            stream: true,
+            max_tokens: request.maxTokens,
+            top_p: request.topP,
+            temperature: request.temperature,
+            tools: request.tools,
+            // Usage is only streamed on request
+            stream_options: request.includeUsage ? { include_usage: true } : undefined,
+        }, { signal: request.signal });
+
+        // Native tool calls arrive as fragments keyed by index, the first fragment carries the id and name
+        const started = new Set<number>();
+        for await (const chunk of stream) {
+            if (chunk.usage) {
+                yield { type: "usage", usage: chunk.usage };
+            }
+            const delta = chunk.choices[0]?.delta;
+            if (!delta) {
+                continue;
+            }
+            const reasoning = (delta as ReasoningContent).reasoning_content;
+            if (reasoning) {
+                yield { type: "reasoning", text: reasoning };
+            }
+            if (delta.content) {
+                yield { type: "text", text: delta.content };
+            }
+            for (const toolCallDelta of delta.tool_calls || []) {
+                const index = toolCallDelta.index ?? started.size;
+                if (!started.has(index)) {
+                    started.add(index);
+                    yield { type: "tool_call_start", index, id: toolCallDelta.id || '', name: toolCallDelta.function?.name || '' };
+                }
+                if (toolCallDelta.function?.arguments) {
+                    yield { type: "tool_call_delta", index, arguments: toolCallDelta.function.arguments };
+                }
+            }
+        }
+    }
+
+    /**
+     * Chat completion messages, without reasoning blocks kept for other providers
+     */
+    private toOpenAIMessages(request: LLMRequest): ChatCompletionMessageParam[] {
+        return request.messages.map((message): ChatCompletionMessageParam => {
+            if (message.role === "user") {
+                return { role: "user", content: message.content };
+            }
+            if (message.role === "assistant") {
+                return {
+                    role: "assistant",
+                    content: this.textContent(message.content),
+                    ...(message.tool_calls?.length ? { tool_calls: message.tool_calls } : {})
+                };
+            }
+            if (message.role === "tool") {
+                return { role: "tool", content: this.textContent(message.content), tool_call_id: message.tool_call_id || '' };
+            }
+            return { role: "system", content: this.textContent(message.content) };
+        });
+    }
+
+    /**
+     * Content of a message role that only takes text, other parts are sent in user messages
+     */
+    private textContent(content: MessageContent["content"]): string | ChatCompletionContentPartText[] {
+        if (typeof content === "string") {
+            return content;
+        }
+        return content.filter((part): part is ChatCompletionContentPartText => part.type === "text");
+    }
+}
+
+export { OpenAIProvider };
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { CreateMessageResult, ErrorCode, McpError, SamplingMessage } from "@modelcontextprotocol/sdk/types.js";
+import { LLMProvider, MessageContent, SamplingOptions, SamplingParams, SamplingPolicy } from "../types/mcp-sseclient";
+
+// Error code the MCP specification uses for sampling requests the user rejected
+const USER_REJECTED = -1;
+
+/**
+ * Answers `sampling/createMessage` requests of servers with the configured LLM,
+ * applying the server policies and the approval handler before and after the completion
+ */
+class SamplingHandler {
+    constructor(private options: SamplingOptions, private defaultProvider: () => LLMProvider | undefined) { }
+
+    get enabled(): boolean {
+        return this.options.enabled !== false;
+    }
+
+    /**
+     * Resolve the policy that applies to a service
+     */
+    policyFor(serviceSource: string): SamplingPolicy {
+        return (this.options.serverPolicies || {})[serviceSource]
+            || this.options.defaultPolicy
+            || (this.options.handler ? "ask" : "always");
+    }
+
+    /**
+     * Answer a sampling request
+     * @param serviceSource Service that sent the request
+     * @param params Parameters of the request
+     * @param signal Aborted when the server cancels the request
+     */
+    async createMessage(serviceSource: string, params: SamplingParams, signal?: AbortSignal): Promise<CreateMessageResult> {
+        const policy = this.policyFor(serviceSource);
+        if (policy === "never") {
+            throw new McpError(USER_REJECTED, `Sampling requests from ${serviceSource} are not allowed`);
+        }
+        const ask = policy === "ask";
+        if (ask && !this.options.handler) {
+            throw new McpError(USER_REJECTED, "Sampling request requires approval, but no approval handler is configured");
+        }
+
+        if (ask) {
+            const decision = await this.options.handler!({ stage: "request", serviceSource, params });
+            if (decision.action === "deny") {
+                throw new McpError(USER_REJECTED, decision.reason || "The user rejected the sampling request");
+            }
+            params = decision.params || params;
+        }
+
+        const provider = this.selectProvider(params);
+        const maxTokens = this.options.maxTokens ? Math.min(params.maxTokens, this.options.maxTokens) : params.maxTokens;
+        const completion = await provider.complete({
+            messages: this.toMessages(params),
+            maxTokens,
+            temperature: params.temperature,
+            signal
+        });
+
+        let result: CreateMessageResult = {
+            model: provider.model,
+            role: "assistant",
+            content: { type: "text", text: completion.content.replace(/<think>[\s\S]*?<\/think>/g, "").trim() },
+            stopReason: "endTurn"
+        };
+
+        if (ask) {
+            const decision = await this.options.handler!({ stage: "response", serviceSource, params, result });
+            if (decision.action === "deny") {
+                throw new McpError(USER_REJECTED, decision.reason || "The user rejected the sampling response");
+            }
+            result = decision.result || result;
+        }
+        return result;
+    }
+
+    /**
+     * Pick the first provider whose model matches a name hint of the request, or the default provider
+     */
+    private selectProvider(params: SamplingParams): LLMProvider {
+        const defaultProvider = this.defaultProvider();
+        const providers = [...(defaultProvider ? [defaultProvider] : []), ...(this.options.providers || [])];
+        if (providers.length === 0) {
+            throw new McpError(ErrorCode.InternalError, "No LLM provider configured. Cannot answer sampling requests.");
+        }
+
+        for (const hint of params.modelPreferences?.hints || []) {
+            const name = hint.name?.toLowerCase();
+            const match = name ? providers.find((provider) => provider.model.toLowerCase().includes(name)) : undefined;
+            if (match) {
+                return match;
+            }
+        }
+        return providers[0];
+    }
+
+    private toMessages(params: SamplingParams): MessageContent[] {
+        const messages: MessageContent[] = [];
+        if (params.systemPrompt) {
+            messages.push({ role: "system", content: params.systemPrompt });
+        }
+        for (const message of params.messages) {
+            messages.push({ role: message.role, content: this.toContent(message) });
+        }
+        return messages;
+    }
+
+    private toContent(message: SamplingMessage): MessageContent["content"] {
+        const content = message.content;
+        if (content.type === "text") {
+            return content.text as string;
+        }
+        if (content.type === "image") {
+            return [{ type: "image_url", image_url: { url: `data:${content.mimeType};base64,${content.data}` } }];
+        }
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported sampling content type: ${content.type}`);
+    }
+}
+
+export { SamplingHandler };
\ No newline at end of file
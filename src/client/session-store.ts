@@ -0,0 +1,299 @@
+import { ChatSession, ChatSessionExport, ChatSessionInfo, MessageContent, SessionStorageAdapter } from "../types/mcp-sseclient";
+
+// Version of the session export format
+const SESSION_EXPORT_VERSION = 1;
+
+/**
+ * Summarize a session for listings
+ */
+function toSessionInfo(session: ChatSession): ChatSessionInfo {
+    return {
+        id: session.id,
+        name: session.name,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length,
+        forkedFrom: session.forkedFrom
+    };
+}
+
+function sortByUpdate(sessions: ChatSessionInfo[]): ChatSessionInfo[] {
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+function createSessionId(): string {
+    if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+        return crypto.randomUUID();
+    }
+    return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
+
+function copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Keeps sessions in memory, for tests and for pages that do not persist conversations
+ */
+class MemorySessionStorage implements SessionStorageAdapter {
+    private sessions = new Map<string, ChatSession>();
+
+    async load(id: string): Promise<ChatSession | undefined> {
+        const session = this.sessions.get(id);
+        return session ? copy(session) : undefined;
+    }
+
+    async save(session: ChatSession): Promise<void> {
+        this.sessions.set(session.id, copy(session));
+    }
+
+    async delete(id: string): Promise<void> {
+        this.sessions.delete(id);
+    }
+
+    async list(): Promise<ChatSessionInfo[]> {
+        return sortByUpdate([...this.sessions.values()].map(toSessionInfo));
+    }
+}
+
+/**
+ * Keeps each session as a JSON entry in `localStorage`
+ */
+class LocalStorageSessionStorage implements SessionStorageAdapter {
+    constructor(private prefix: string = "mcp-sseclient:session:") { }
+
+    async load(id: string): Promise<ChatSession | undefined> {
+        const raw = localStorage.getItem(this.prefix + id);
+        return raw ? JSON.parse(raw) : undefined;
+    }
+
+    async save(session: ChatSession): Promise<void> {
+        localStorage.setItem(this.prefix + session.id, JSON.stringify(session));
+    }
+
+    async delete(id: string): Promise<void> {
+        localStorage.removeItem(this.prefix + id);
+    }
+
+    async list(): Promise<ChatSessionInfo[]> {
+        const sessions: ChatSessionInfo[] = [];
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (!key || !key.startsWith(this.prefix)) {
+                continue;
+            }
+            try {
+                sessions.push(toSessionInfo(JSON.parse(localStorage.getItem(key) || "")));
+            } catch (error) {
+                console.error(`Skipping unreadable session ${key}:`, error);
+            }
+        }
+        return sortByUpdate(sessions);
+    }
+}
+
+/**
+ * Keeps sessions in an IndexedDB object store, for histories larger than `localStorage` allows
+ */
+class IndexedDBSessionStorage implements SessionStorageAdapter {
+    private db?: Promise<IDBDatabase>;
+
+    constructor(private dbName: string = "mcp-sseclient", private storeName: string = "sessions") { }
+
+    async load(id: string): Promise<ChatSession | undefined> {
+        return this.request("readonly", (store) => store.get(id));
+    }
+
+    async save(session: ChatSession): Promise<void> {
+        await this.request("readwrite", (store) => store.put(copy(session)));
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.request("readwrite", (store) => store.delete(id));
+    }
+
+    async list(): Promise<ChatSessionInfo[]> {
+        const sessions: ChatSession[] = await this.request("readonly", (store) => store.getAll());
+        return sortByUpdate(sessions.map(toSessionInfo));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.dbName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(this.storeName, { keyPath: "id" });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Allow a later call to retry when opening failed
+            this.db.catch(() => { this.db = undefined; });
+        }
+        return this.db;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
+
+/**
+ * Tracks the current session and persists its messages through a storage adapter
+ */
+class SessionStore {
+    private current: ChatSession;
+    // Saves run one after another so an older history never overwrites a newer one
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(private storage: SessionStorageAdapter = new MemorySessionStorage()) {
+        this.current = this.newSession();
+    }
+
+    get currentId(): string {
+        return this.current.id;
+    }
+
+    /**
+     * Persist the messages of the current session
+     */
+    save(messages: MessageContent[]): Promise<void> {
+        this.current = { ...this.current, messages, updatedAt: Date.now() };
+        const session = this.current;
+        this.saving = this.saving
+            .then(() => this.storage.save(session))
+            .catch((error) => console.error(`Failed to save session ${session.id}:`, error));
+        return this.saving;
+    }
+
+    /**
+     * Start a new empty session and make it current
+     */
+    async create(name?: string): Promise<ChatSession> {
+        this.current = this.newSession(name);
+        await this.persist(this.current);
+        return this.current;
+    }
+
+    /**
+     * Make a stored session current
+     */
+    async switch(id: string): Promise<ChatSession> {
+        await this.saving;
+        const session = await this.storage.load(id);
+        if (!session) {
+            throw new Error(`Session not found: ${id}`);
+        }
+        this.current = session;
+        return session;
+    }
+
+    list(): Promise<ChatSessionInfo[]> {
+        return this.saving.then(() => this.storage.list());
+    }
+
+    /**
+     * Delete a session, deleting the current session starts a new empty one
+     * @returns The current session afterwards
+     */
+    async delete(id: string): Promise<ChatSession> {
+        await this.saving;
+        await this.storage.delete(id);
+        if (id === this.current.id) {
+            this.current = this.newSession();
+        }
+        return this.current;
+    }
+
+    /**
+     * Copy a session up to a message into a new session and make it current
+     * @param messageIndex Index of the last message to keep, tool results answering it are kept as well
+     * @param sourceId Session to fork, defaults to the current session
+     */
+    async fork(messageIndex: number, name?: string, sourceId?: string): Promise<ChatSession> {
+        await this.saving;
+        const source = sourceId === undefined || sourceId === this.current.id
+            ? this.current
+            : await this.storage.load(sourceId);
+        if (!source) {
+            throw new Error(`Session not found: ${sourceId}`);
+        }
+        if (messageIndex < 0 || messageIndex >= source.messages.length) {
+            throw new Error(`Message index ${messageIndex} is out of range for session ${source.id}`);
+        }
+
+        let end = messageIndex + 1;
+        while (end < source.messages.length && source.messages[end].role === "tool") {
+            end++;
+        }
+
+        this.current = {
+            ...this.newSession(name || `${source.name} (fork)`),
+            messages: copy(source.messages.slice(0, end)),
+            forkedFrom: { sessionId: source.id, messageIndex }
+        };
+        await this.persist(this.current);
+        return this.current;
+    }
+
+    /**
+     * Export a session as versioned JSON
+     * @param id Session to export, defaults to the current session
+     */
+    async export(id?: string): Promise<ChatSessionExport> {
+        await this.saving;
+        const session = id === undefined || id === this.current.id ? this.current : await this.storage.load(id);
+        if (!session) {
+            throw new Error(`Session not found: ${id}`);
+        }
+        return {
+            version: SESSION_EXPORT_VERSION,
+            exportedAt: new Date().toISOString(),
+            session: copy(session)
+        };
+    }
+
+    /**
+     * Store an exported session, under a new id when the id is already taken
+     * @returns The imported session, which does not become current
+     */
+    async import(data: ChatSessionExport | string): Promise<ChatSession> {
+        const parsed: ChatSessionExport = typeof data === "string" ? JSON.parse(data) : data;
+        if (typeof parsed?.version !== "number" || parsed.version > SESSION_EXPORT_VERSION) {
+            throw new Error(`Unsupported session export version: ${parsed?.version}`);
+        }
+        if (!parsed.session || !Array.isArray(parsed.session.messages)) {
+            throw new Error("Invalid session export: missing session messages");
+        }
+
+        await this.saving;
+        const session: ChatSession = copy(parsed.session);
+        if (!session.id || session.id === this.current.id || await this.storage.load(session.id)) {
+            session.id = createSessionId();
+        }
+        session.name = session.name || "Imported session";
+        session.createdAt = session.createdAt || Date.now();
+        session.updatedAt = session.updatedAt || session.createdAt;
+        await this.persist(session);
+        return session;
+    }
+
+    private newSession(name?: string): ChatSession {
+        const now = Date.now();
+        return { id: createSessionId(), name: name || "New session", messages: [], createdAt: now, updatedAt: now };
+    }
+
+    private persist(session: ChatSession): Promise<void> {
+        const saved = this.saving.then(() => this.storage.save(session));
+        // A failed save is reported to the caller without blocking later saves
+        this.saving = saved.catch(() => undefined);
+        return saved;
+    }
+}
+
+export { SessionStore, toSessionInfo, MemorySessionStorage, LocalStorageSessionStorage, IndexedDBSessionStorage };
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { MCPTool, ToolApprovalOptions, ToolApprovalPolicy } from "../types/mcp-sseclient";
+
+export type ToolApprovalResult =
+    | { approved: true, arguments: any, edited: boolean }
+    | { approved: false, reason: string };
+
+/**
+ * Applies the declarative approval policies and the approval handler to tool calls
+ */
+class ToolApproval {
+    constructor(private options: ToolApprovalOptions = {}) { }
+
+    /**
+     * Resolve the policy that applies to a tool, tool policies first, then server policies
+     */
+    policyFor(tool: MCPTool): ToolApprovalPolicy {
+        const { toolPolicies = {}, serverPolicies = {} } = this.options;
+        return toolPolicies[tool.name]
+            || (tool.originalName ? toolPolicies[tool.originalName] : undefined)
+            || (tool.serviceSource ? serverPolicies[tool.serviceSource] : undefined)
+            || this.options.defaultPolicy
+            || (this.options.handler ? "ask" : "always");
+    }
+
+    /**
+     * Decide whether a tool call may run
+     * @param tool Registered tool
+     * @param toolArgs Arguments from the model
+     * @param signal Cancels the wait for the approval handler
+     * @returns Approval with the arguments to run the tool with and whether the handler replaced them, or the reason for the denial
+     */
+    async review(tool: MCPTool, toolArgs: any, signal?: AbortSignal): Promise<ToolApprovalResult> {
+        const policy = this.policyFor(tool);
+        if (policy === "always") {
+            return { approved: true, arguments: toolArgs, edited: false };
+        }
+        if (policy === "never") {
+            return { approved: false, reason: "Tool calls to this tool are not allowed" };
+        }
+        if (!this.options.handler) {
+            return { approved: false, reason: "Tool call requires approval, but no approval handler is configured" };
+        }
+
+        const decision = await this.untilAborted(this.options.handler({
+            name: tool.name,
+            arguments: toolArgs,
+            serviceSource: tool.serviceSource || "",
+            annotations: tool.annotations,
+            signal
+        }), signal);
+
+        if (decision.action === "approve") {
+            const edited = decision.arguments !== undefined;
+            return { approved: true, arguments: edited ? decision.arguments : toolArgs, edited };
+        }
+        return { approved: false, reason: decision.reason || "The user denied the tool call" };
+    }
+
+    /**
+     * Settle with the handler decision, or reject as soon as the signal aborts
+     */
+    private untilAborted<T>(pending: Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (!signal) {
+            return pending;
+        }
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(signal.reason ?? new Error("The query was aborted"));
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+            signal.addEventListener("abort", onAbort, { once: true });
+            pending.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    }
+}
+
+export { ToolApproval };
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { LocalToolHandler, MCPTool, SSEConnection, ToolCollision } from "../types/mcp-sseclient";
+
+// Separator between the service source and the tool name in namespaced tool names
+const NAMESPACE_SEPARATOR = "__";
+
+interface ToolRegistryEntry {
+    tool: MCPTool;
+    // Connection that provides the tool, absent for local tools
+    connection?: SSEConnection;
+    // Handler of a local tool
+    handler?: LocalToolHandler;
+}
+
+/**
+ * Tools listed by one connection, or the local tools with their handlers
+ */
+export interface ToolSource {
+    serviceSource: string;
+    connection?: SSEConnection;
+    tools: any[];
+    handlers?: Map<string, LocalToolHandler>;
+}
+
+/**
+ * Maps the tool names exposed to the model to the connection or local handler that provides them
+ */
+class ToolRegistry {
+    private entries = new Map<string, ToolRegistryEntry>();
+    private collisions: ToolCollision[] = [];
+
+    constructor(private namespacing: boolean = false) { }
+
+    /**
+     * Rebuild the registry from the tools listed by each source
+     * @param sources Tools listed by each connection in connection order, and the local tools
+     */
+    build(sources: ToolSource[]) {
+        const candidates = sources.flatMap(({ connection, serviceSource, tools, handlers }) => {
+            return tools.map((tool) => ({
+                connection,
+                serviceSource,
+                handler: handlers?.get(tool.name),
+                tool: tool as MCPTool,
+                name: this.namespacing ? ToolRegistry.namespacedName(serviceSource, tool.name) : tool.name
+            }));
+        });
+
+        this.entries = new Map();
+        this.collisions = [];
+
+        const groups = ToolRegistry.groupByName(candidates);
+        for (const [name, group] of groups) {
+            if (group.length === 1) {
+                this.add(name, group[0]);
+            }
+        }
+
+        for (const [name, group] of groups) {
+            if (group.length === 1) {
+                continue;
+            }
+
+            const serviceSources = group.map((candidate) => candidate.serviceSource);
+
+            // Without namespacing, colliding tools are exposed under their namespaced names instead
+            const renamed = group.map((candidate) => ToolRegistry.namespacedName(candidate.serviceSource, candidate.tool.name));
+            if (!this.namespacing && new Set(renamed).size === group.length && renamed.every((n) => !this.entries.has(n))) {
+                group.forEach((candidate, i) => this.add(renamed[i], candidate));
+                this.collisions.push({ name, serviceSources, resolution: "namespaced" });
+            } else {
+                this.collisions.push({ name, serviceSources, resolution: "dropped" });
+            }
+        }
+    }
+
+    /**
+     * List all registered tools under their exposed names
+     */
+    list(): MCPTool[] {
+        return [...this.entries.values()].map((entry) => entry.tool);
+    }
+
+    /**
+     * Find the connection or local handler and tool behind an exposed tool name
+     */
+    resolve(name: string): ToolRegistryEntry | undefined {
+        return this.entries.get(name);
+    }
+
+    /**
+     * Tool name collisions detected during the last build
+     */
+    getCollisions(): ToolCollision[] {
+        return [...this.collisions];
+    }
+
+    private add(name: string, candidate: { connection?: SSEConnection, handler?: LocalToolHandler, serviceSource: string, tool: MCPTool }) {
+        this.entries.set(name, {
+            connection: candidate.connection,
+            handler: candidate.handler,
+            tool: {
+                ...candidate.tool,
+                name,
+                originalName: candidate.tool.name,
+                serviceSource: candidate.serviceSource
+            }
+        });
+    }
+
+    private static namespacedName(serviceSource: string, toolName: string): string {
+        // Function names only allow letters, digits, underscores and dashes
+        const prefix = serviceSource.replace(/[^a-zA-Z0-9_-]+/g, "_");
+        return `${prefix}${NAMESPACE_SEPARATOR}${toolName}`;
+    }
+
+    private static groupByName<T extends { name: string }>(items: T[]): Map<string, T[]> {
+        const groups = new Map<string, T[]>();
+        for (const item of items) {
+            groups.set(item.name, [...(groups.get(item.name) || []), item]);
+        }
+        return groups;
+    }
+}
+
+export { ToolRegistry, ToolRegistryEntry };
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { MCPTool, ParallelToolCallOptions } from "../types/mcp-sseclient";
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * Counting semaphore for tool calls
+ */
+class Semaphore {
+    private active = 0;
+    private waiting: Array<() => void> = [];
+
+    constructor(private limit: number) { }
+
+    async acquire(): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++;
+            return;
+        }
+        // The released slot is handed over directly, so the count stays the same
+        await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    release() {
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+}
+
+/**
+ * Decides which tool calls may run concurrently and enforces the global and per-service limits
+ */
+class ToolScheduler {
+    private global: Semaphore;
+    private servers = new Map<string, Semaphore>();
+
+    constructor(private options: ParallelToolCallOptions = {}) {
+        this.global = new Semaphore(Math.max(1, options.maxConcurrency || DEFAULT_MAX_CONCURRENCY));
+    }
+
+    /**
+     * Whether a call to the tool may run alongside other calls
+     */
+    canRunInParallel(tool: MCPTool): boolean {
+        if (!this.options.enabled) {
+            return false;
+        }
+        if (this.options.canRunInParallel) {
+            return this.options.canRunInParallel(tool);
+        }
+        // MCP tools are not read-only unless annotated as such
+        return tool.annotations?.readOnlyHint === true;
+    }
+
+    /**
+     * Run a tool call once a slot is free, both globally and for its service
+     * @param serviceSource Service that provides the tool
+     * @param task Tool call
+     */
+    async run<T>(serviceSource: string, task: () => Promise<T>): Promise<T> {
+        const server = this.serverSemaphore(serviceSource);
+        await server?.acquire();
+        await this.global.acquire();
+        try {
+            return await task();
+        } finally {
+            this.global.release();
+            server?.release();
+        }
+    }
+
+    private serverSemaphore(serviceSource: string): Semaphore | undefined {
+        const limit = this.options.serverConcurrency?.[serviceSource];
+        if (!limit) {
+            return undefined;
+        }
+        let semaphore = this.servers.get(serviceSource);
+        if (!semaphore) {
+            semaphore = new Semaphore(Math.max(1, limit));
+            this.servers.set(serviceSource, semaphore);
+        }
+        return semaphore;
+    }
+}
+
+export { ToolScheduler };
\ No newline at end of file
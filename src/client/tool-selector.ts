@@ -0,0 +1,163 @@
+import { MCPTool, MessageContent, ToolFilter, ToolRanker, ToolSelectionOptions } from "../types/mcp-sseclient";
+
+const DEFAULT_PIN_RECENT = 5;
+
+// BM25 term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Common English words that say nothing about which tool fits
+const STOP_WORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "for", "from", "how", "i", "in", "is", "it",
+    "me", "my", "of", "on", "or", "please", "that", "the", "this", "to", "what", "with", "you"
+]);
+
+/**
+ * Split text into lowercase terms: camelCase and snake_case words are separated, stop words are dropped,
+ * Han characters become single terms and simple plurals are reduced to their singular
+ */
+function tokenize(text: string): string[] {
+    const words = text
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .toLowerCase()
+        .match(/\p{Script=Han}|[^\s\p{P}\p{S}\p{Script=Han}]+/gu) || [];
+    return words
+        .filter((word) => !STOP_WORDS.has(word))
+        .map((word) => word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+}
+
+/**
+ * Terms of a tool, the name counts twice as it is the most specific description of the tool
+ */
+function toolTerms(tool: MCPTool): string[] {
+    const name = tokenize((tool.originalName || tool.name).replace(/_/g, " "));
+    const parts = [tool.description || ""];
+    const properties = (tool.inputSchema as { properties?: Record<string, { description?: string }> } | undefined)?.properties || {};
+    for (const [property, schema] of Object.entries(properties)) {
+        parts.push(property.replace(/_/g, " "), typeof schema?.description === "string" ? schema.description : "");
+    }
+    return [...name, ...name, ...tokenize(parts.join(" "))];
+}
+
+/**
+ * Local lexical ranker that scores tools with BM25 over their names, descriptions and argument names
+ */
+class Bm25ToolRanker implements ToolRanker {
+    rank(query: string, tools: MCPTool[]): number[] {
+        const queryTerms = [...new Set(tokenize(query))];
+        const documents = tools.map(toolTerms);
+        const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / Math.max(1, documents.length);
+
+        const documentFrequency = new Map<string, number>();
+        for (const terms of documents) {
+            for (const term of new Set(terms)) {
+                documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+            }
+        }
+
+        return documents.map((terms) => {
+            const frequency = new Map<string, number>();
+            for (const term of terms) {
+                frequency.set(term, (frequency.get(term) || 0) + 1);
+            }
+
+            let score = 0;
+            for (const term of queryTerms) {
+                const tf = frequency.get(term);
+                if (!tf) {
+                    continue;
+                }
+                const df = documentFrequency.get(term) || 0;
+                const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+                score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * terms.length / (averageLength || 1)));
+            }
+            return score;
+        });
+    }
+}
+
+/**
+ * Chooses the tools offered to the model for a query: static allow and deny lists first,
+ * then the most relevant tools by the ranker, keeping the tools used recently in the session
+ */
+class ToolSelector {
+    private ranker: ToolRanker;
+
+    constructor(private options: ToolSelectionOptions = {}) {
+        this.ranker = options.ranker || new Bm25ToolRanker();
+    }
+
+    /**
+     * Whether the client and query lists let a tool be offered and called
+     */
+    isAllowed(tool: MCPTool, filter?: ToolFilter): boolean {
+        const names = [tool.name, tool.originalName].filter((name): name is string => !!name);
+        const matches = (list?: string[]) => !!list && names.some((name) => list.includes(name));
+
+        for (const allow of [this.options.allow, filter?.allow]) {
+            if (allow && !matches(allow)) {
+                return false;
+            }
+        }
+        return !matches(this.options.deny) && !matches(filter?.deny);
+    }
+
+    /**
+     * Select the tools for a query
+     * @param tools All registered tools
+     * @param query User message of the query
+     * @param history Earlier messages of the session, used to find recently used tools
+     * @param filter Allow and deny lists of the query
+     * @returns Selected tools in registry order
+     */
+    async select(tools: MCPTool[], query: string, history: MessageContent[], filter?: ToolFilter): Promise<MCPTool[]> {
+        const allowed = tools.filter((tool) => this.isAllowed(tool, filter));
+        const topK = this.options.topK;
+        if (topK === undefined || allowed.length <= topK) {
+            return allowed;
+        }
+
+        const pinned = new Set(this.recentToolNames(history).filter((name) => allowed.some((tool) => tool.name === name)));
+        const candidates = allowed.filter((tool) => !pinned.has(tool.name));
+        const scores = await this.ranker.rank(query, candidates);
+
+        // Stable order for equal scores, so the selection does not change between identical queries
+        const ranked = candidates
+            .map((tool, index) => ({ tool, score: scores[index] || 0, index }))
+            .sort((a, b) => b.score - a.score || a.index - b.index)
+            .slice(0, Math.max(0, topK - pinned.size))
+            .map(({ tool }) => tool.name);
+
+        const selected = new Set([...pinned, ...ranked]);
+        return allowed.filter((tool) => selected.has(tool.name));
+    }
+
+    /**
+     * Names of the tools called in the session, most recent first
+     */
+    private recentToolNames(history: MessageContent[]): string[] {
+        const limit = this.options.pinRecent ?? DEFAULT_PIN_RECENT;
+        const names: string[] = [];
+        for (let i = history.length - 1; i >= 0 && names.length < limit; i--) {
+            const message = history[i];
+            if (message.role !== "assistant") {
+                continue;
+            }
+
+            const called = (message.tool_calls || []).map((toolCall) => toolCall.function.name);
+            if (typeof message.content === "string") {
+                for (const match of message.content.matchAll(/<tool_use>\s*<name>\s*([^<]+?)\s*<\/name>/g)) {
+                    called.push(match[1]);
+                }
+            }
+            for (const name of called.reverse()) {
+                if (names.length < limit && !names.includes(name)) {
+                    names.push(name);
+                }
+            }
+        }
+        return names;
+    }
+}
+
+export { ToolSelector, Bm25ToolRanker };
\ No newline at end of file
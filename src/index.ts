@@ -1 +1,3 @@
-export { MCPClient } from './client';
+export { MCPClient, LoopLimitExceeded, MemorySessionStorage, LocalStorageSessionStorage, IndexedDBSessionStorage } from './client';
+export { OpenAIProvider, AnthropicProvider, OllamaProvider, BrowserOAuthProvider, Bm25ToolRanker } from './client';
+export * from './types';
\ No newline at end of file
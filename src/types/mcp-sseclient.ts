@@ -1,4 +1,7 @@
+
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import { CallToolResult, CreateMessageRequest, CreateMessageResult, GetPromptResult, Prompt, ReadResourceResult, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
 
 export interface MCPToolInputSchema {
     type: string
@@ -15,16 +18,742 @@ export interface MCPTool {
     name: string
     description?: string
     inputSchema: MCPToolInputSchema
+    annotations?: Record<string, unknown>
+    // Name of the connection that provides the tool
+    serviceSource?: string
+    // Name of the tool on its server, when exposed to the model under a different name
+    originalName?: string
+}
+
+/**
+ * Context passed to the handler of a local tool
+ */
+export interface LocalToolContext {
+    // Aborted when the query is cancelled
+    signal?: AbortSignal;
+}
+
+/**
+ * Handler of a local tool, a string or other value is returned to the model as text
+ */
+export type LocalToolHandler = (args: any, context: LocalToolContext) => Promise<CallToolResult | string | unknown> | CallToolResult | string | unknown;
+
+/**
+ * Tool implemented in the page, listed with the service source `local`
+ */
+export interface LocalTool {
+    name: string;
+    description?: string;
+    // JSON Schema of the tool input
+    inputSchema: Record<string, unknown>;
+    annotations?: Record<string, unknown>;
+    handler: LocalToolHandler;
 }
 
-export type MessageContent<T = string | Array<{ type: string, text: string }>> = {
-    role: "system" | "user" | "assistant";
+/**
+ * Tools from different services that share a name
+ * - `namespaced`: each tool is exposed as `<serviceSource>__<name>`
+ * - `dropped`: the tools could not be told apart and are not exposed
+ */
+export interface ToolCollision {
+    name: string
+    serviceSources: string[]
+    resolution: "namespaced" | "dropped"
+}
+
+/**
+ * How tools are offered to the model:
+ * - `prompt`: tools are described in the system prompt and called with `<tool_use>` XML blocks
+ * - `function`: tools are sent as native OpenAI `tools` and called through `tool_calls`
+ */
+export type ToolCallMode = "prompt" | "function";
+
+export interface ToolCall {
+    id: string;
+    type: "function";
+    function: {
+        name: string;
+        arguments: string;
+    };
+}
+
+/**
+ * Tool definition sent to the model, in the OpenAI function format
+ */
+export interface FunctionTool {
+    type: "function";
+    function: {
+        name: string;
+        description?: string;
+        parameters: Record<string, unknown>;
+    };
+}
+
+/**
+ * A tool invocation parsed from a model response
+ */
+export interface ToolUse {
+    id?: string;
+    name: string;
+    arguments: any;
+}
+
+/**
+ * Part of a message: text, an image by data URL or URL, or a file as a base64 data URL
+ */
+export type MessageContentPart =
+    | { type: "text", text: string }
+    | { type: "image_url", image_url: { url: string } }
+    | { type: "file", file: { filename: string, file_data: string } };
+
+/**
+ * Part of a user query: text, an image or file as `Blob` or `File`, or a message content part.
+ * Images are downscaled to the attachment limits, text files are inlined and other files are sent as file parts
+ */
+export type QueryPart = string | Blob | MessageContentPart;
+
+export type MessageContent<T = string | MessageContentPart[]> = {
+    role: "system" | "user" | "assistant" | "tool";
     content: T;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
+    // Set on the assistant message of a turn that was aborted, never sent to the model
+    interrupted?: boolean;
+    // Set on the first message of each turn, never sent to the model
+    turnStart?: boolean;
+    // Signed reasoning of the assistant message, sent back to the provider that produced it
+    reasoningBlocks?: ReasoningBlock[];
 };
 
+/**
+ * Reasoning a provider needs back unchanged with later requests, such as Anthropic thinking blocks,
+ * which must precede the tool calls they led to when the tool results are sent
+ */
+export type ReasoningBlock =
+    | { type: "thinking", thinking: string, signature: string }
+    | { type: "redacted_thinking", data: string };
+
+/**
+ * Transport used to reach an MCP server:
+ * - `sse`: the (deprecated) HTTP+SSE transport
+ * - `streamable-http`: the Streamable HTTP transport
+ * - `auto`: try Streamable HTTP first and fall back to SSE
+ */
+export type MCPTransportType = "sse" | "streamable-http" | "auto";
+
+/**
+ * Configuration of a single MCP server passed to the `MCPClient` constructor
+ */
+export interface MCPServerConfig {
+    url: URL;
+    headers?: Record<string, string>;
+    name?: string;
+    transport?: MCPTransportType;
+    // Start the server disabled, it is connected by `enableServer`
+    enabled?: boolean;
+    // OAuth authorization for protected servers, such as a `BrowserOAuthProvider`
+    authProvider?: OAuthClientProvider;
+}
+
+/**
+ * Health of a connection to an MCP server, `disabled` servers are not connected and offer no tools,
+ * `unauthorized` servers wait for the OAuth authorization to be finished with `finishAuth`
+ */
+export type ConnectionStatus = "connecting" | "connected" | "reconnecting" | "failed" | "closed" | "disabled" | "unauthorized";
+
 export interface SSEConnection {
     url: URL;
     client: Client;
     name?: string;
     headers?: Record<string, string>;
+    transport: MCPTransportType;
+    // Transport actually in use once connected
+    activeTransport?: Exclude<MCPTransportType, "auto">;
+    status: ConnectionStatus;
+    lastError?: string;
+    reconnectAttempts: number;
+    // Resource URIs subscribed on this connection, restored after reconnecting
+    subscriptions: Set<string>;
+    authProvider?: OAuthClientProvider;
+}
+
+/**
+ * Options of `BrowserOAuthProvider`
+ */
+export interface BrowserOAuthOptions {
+    // Page the authorization server redirects back to, defaults to the current page
+    redirectUrl?: string;
+    // Show the authorization page by navigating away or in a popup, defaults to `redirect`
+    mode?: "redirect" | "popup";
+    clientName?: string;
+    scope?: string;
+    // Client id registered in advance, skips dynamic client registration
+    clientId?: string;
+    // Storage of tokens, client registration and PKCE verifier, defaults to `localStorage`
+    storage?: Storage;
+    // Prefix of the storage keys, defaults to `mcp-oauth:`
+    storageKey?: string;
+    // Features of the popup window
+    popupFeatures?: string;
+    // Time to wait for the popup authorization in milliseconds, defaults to 5 minutes
+    popupTimeout?: number;
+}
+
+/**
+ * Snapshot of a connection returned by `MCPClient.getConnectionStatus()`
+ */
+export interface ConnectionStatusInfo {
+    name: string;
+    url: string;
+    status: ConnectionStatus;
+    transport?: Exclude<MCPTransportType, "auto">;
+    lastError?: string;
+    reconnectAttempts: number;
+}
+
+/**
+ * Emitted whenever a connection changes status
+ */
+export interface ConnectionStatusEvent {
+    name: string;
+    url: string;
+    status: ConnectionStatus;
+    previousStatus: ConnectionStatus;
+    error?: string;
+}
+
+/**
+ * Emitted when the set of tools offered to the model changes
+ */
+export interface ToolsChangedEvent {
+    tools: MCPTool[];
+    // Exposed names of the tools that were added or removed
+    added: string[];
+    removed: string[];
+}
+
+/**
+ * Exponential backoff used to reconnect dropped connections
+ */
+export interface ReconnectOptions {
+    // Number of reconnection attempts before the connection is marked failed, 0 disables reconnection
+    maxRetries?: number;
+    // Delay before the first attempt in milliseconds
+    initialDelay?: number;
+    // Upper bound for the delay between attempts in milliseconds
+    maxDelay?: number;
+    // Factor the delay grows by after each attempt
+    backoffFactor?: number;
+}
+
+/**
+ * Options for `MCPClient` behaviour that is independent of the LLM provider
+ */
+export interface MCPClientOptions {
+    // Expose every tool as `<serviceSource>__<name>` instead of its plain name
+    toolNamespacing?: boolean;
+    // Reconnection of dropped connections
+    reconnect?: ReconnectOptions;
+    // Approval of tool calls before they are executed
+    toolApproval?: ToolApprovalOptions;
+    // Limits of the tool loop of each query
+    loopLimits?: LoopLimits;
+    // Concurrent execution of the tool calls of one assistant message
+    parallelToolCalls?: ParallelToolCallOptions;
+    // Validation of tool arguments against the tool input schema
+    argumentValidation?: ArgumentValidationOptions;
+    // Storage of the chat sessions, defaults to memory
+    sessionStorage?: SessionStorageAdapter;
+    // Token budget of the messages sent to the model
+    contextWindow?: ContextWindowOptions;
+    // Answer sampling requests of servers with the configured LLM, not advertised when unset
+    sampling?: SamplingOptions;
+    // Ask the user for input requested by servers, elicitation is not advertised when unset
+    elicitationHandler?: ElicitationHandler;
+    // Timeouts of tool calls to servers
+    toolTimeouts?: ToolTimeoutOptions;
+    // Template of the system prompt in prompt mode
+    systemPrompt?: SystemPromptOptions;
+    // Tools offered to the model for each query
+    toolSelection?: ToolSelectionOptions;
+    // Limits of the images and files attached to queries
+    attachments?: AttachmentOptions;
+}
+
+/**
+ * Limits of the images and files attached to queries
+ */
+export interface AttachmentOptions {
+    // Size of an image after downscaling in bytes, defaults to 5 MB
+    maxImageBytes?: number;
+    // Longest side of an image in pixels, larger images are downscaled, defaults to 2048
+    maxImageDimension?: number;
+    // Size of a file in bytes, larger files are rejected, defaults to 10 MB
+    maxFileBytes?: number;
+    // Quality of downscaled JPEG images between 0 and 1, defaults to 0.85
+    imageQuality?: number;
+}
+
+/**
+ * Static lists of tools by name, as exposed to the model or as named by its server.
+ * Tools outside the lists are neither offered to the model nor executed
+ */
+export interface ToolFilter {
+    // Only these tools are available
+    allow?: string[];
+    // These tools are never available
+    deny?: string[];
+}
+
+/**
+ * Scores tools by relevance to a query, one score per tool with higher scores ranking first
+ */
+export interface ToolRanker {
+    rank(query: string, tools: MCPTool[]): number[] | Promise<number[]>;
+}
+
+/**
+ * Selection of the tools offered to the model when many tools are connected
+ */
+export interface ToolSelectionOptions extends ToolFilter {
+    // Tools offered per query, every tool that passes the lists when unset
+    topK?: number;
+    // Relevance of the tools to the query, defaults to a local BM25 ranker
+    ranker?: ToolRanker;
+    // Tools called most recently in the session that are always offered, defaults to 5
+    pinRecent?: number;
+}
+
+/**
+ * System prompt template of prompt mode with its tool use examples. The template places
+ * `{{ TOOL_USE_EXAMPLES }}`, `{{ AVAILABLE_TOOLS }}` and `{{ USER_SYSTEM_PROMPT }}`
+ */
+export interface SystemPromptTemplate {
+    template: string;
+    examples: string;
+}
+
+/**
+ * How the system prompt of prompt mode is built, without tools the user system prompt is sent unchanged
+ */
+export interface SystemPromptOptions {
+    // Locale of the built-in template, `en` or `zh`, defaults to `en`
+    locale?: string;
+    // Replaces the template of the locale
+    template?: string;
+    // Replaces the tool use examples of the locale
+    examples?: string;
+    // Renders the available tools, defaults to XML with escaped tool metadata
+    renderTools?: (tools: MCPTool[]) => string;
+}
+
+/**
+ * Timeouts of tool calls to servers in milliseconds, a call that exceeds its timeout fails with a timeout error
+ */
+export interface ToolTimeoutOptions {
+    // Timeout of every tool call, defaults to the SDK default of 60 seconds
+    timeout?: number;
+    // Timeouts by service source
+    serverTimeouts?: Record<string, number>;
+    // Timeouts by tool name, as exposed to the model or as named by its server; these win over server timeouts
+    toolTimeouts?: Record<string, number>;
+    // Restart the timeout whenever the tool reports progress, defaults to true
+    resetOnProgress?: boolean;
+    // Upper bound for a call however much progress it reports
+    maxTotalTimeout?: number;
+}
+
+/**
+ * Input a server asks the user for, `requestedSchema` is a flat JSON schema of primitive fields
+ */
+export interface ElicitationRequest {
+    serviceSource: string;
+    message: string;
+    requestedSchema: {
+        type: "object";
+        properties: Record<string, { type: string, title?: string, description?: string, [key: string]: unknown }>;
+        required?: string[];
+    };
+    // Aborted when the server cancels the request
+    signal: AbortSignal;
+}
+
+/**
+ * Answer of the user: `accept` with the form contents, `decline` to refuse, `cancel` to dismiss without a choice
+ */
+export type ElicitationResult =
+    | { action: "accept", content: Record<string, string | number | boolean> }
+    | { action: "decline" }
+    | { action: "cancel" };
+
+export type ElicitationHandler = (request: ElicitationRequest) => Promise<ElicitationResult>;
+
+/**
+ * Ways to shrink older turns when the messages exceed the context window:
+ * - `truncate-tool-results`: shorten tool results and drop their images
+ * - `summarize`: replace the older turns with a summary written by the model
+ * - `sliding-window`: drop the oldest turns
+ */
+export type ContextStrategy = "truncate-tool-results" | "summarize" | "sliding-window";
+
+/**
+ * Keeps the messages of each request within the context window of the model.
+ * The system prompt and the latest turn are always kept
+ */
+export interface ContextWindowOptions {
+    // Context window in tokens for every model, no limit when unset
+    maxTokens?: number;
+    // Context window per model name, takes precedence over `maxTokens`
+    modelMaxTokens?: Record<string, number>;
+    // Tokens kept free for the response when the query sets no `maxTokens`, defaults to 1024
+    reserveTokens?: number;
+    // Strategies applied in order until the messages fit, defaults to truncating tool results, then the sliding window
+    strategies?: ContextStrategy[];
+    // Characters kept of each tool result in older turns, defaults to 500
+    toolResultChars?: number;
+    // Token count of a message, defaults to an estimate of four characters per token
+    estimateTokens?: (message: MessageContent) => number;
+}
+
+/**
+ * Validation of tool arguments before they are sent to the server, invalid calls go back to the model with field-level errors
+ */
+export interface ArgumentValidationOptions {
+    // Validate arguments against the tool input schema, defaults to true
+    enabled?: boolean;
+    // Convert numeric and boolean strings to the type the schema expects, defaults to false
+    coerce?: boolean;
+}
+
+/**
+ * Concurrent execution of the tool calls of one assistant message, results are still added in call order
+ */
+export interface ParallelToolCallOptions {
+    // Run tool calls concurrently, defaults to false
+    enabled?: boolean;
+    // Tool calls running at the same time across all services, defaults to 4
+    maxConcurrency?: number;
+    // Tool calls running at the same time per service, keyed by service source
+    serverConcurrency?: Record<string, number>;
+    // Whether a tool may run alongside other calls, defaults to tools annotated with `readOnlyHint: true`
+    canRunInParallel?: (tool: MCPTool) => boolean;
+}
+
+/**
+ * Limits of the tool loop, a query that hits one rejects with `LoopLimitExceeded`. No limit applies unless it is set
+ */
+export interface LoopLimits {
+    // LLM requests per query
+    maxIterations?: number;
+    // Tool calls per query
+    maxToolCalls?: number;
+    // Wall-clock time per query in milliseconds, checked between requests and tool calls
+    maxDurationMs?: number;
+    // Total tokens per query as reported by the LLM usage
+    maxTotalTokens?: number;
+    // Tool calls that repeat the previous call with the same arguments, answered with a reminder before the query stops
+    maxDuplicateCalls?: number;
+}
+
+export type LoopLimit = "iterations" | "toolCalls" | "duration" | "tokens" | "duplicateCalls";
+
+/**
+ * Whether a tool call needs approval:
+ * - `always`: run without asking
+ * - `never`: always deny
+ * - `ask`: ask the approval handler
+ */
+export type ToolApprovalPolicy = "always" | "never" | "ask";
+
+/**
+ * Tool call waiting for approval
+ */
+export interface ToolApprovalRequest {
+    name: string;
+    arguments: any;
+    serviceSource: string;
+    // MCP tool annotations such as `readOnlyHint` and `destructiveHint`
+    annotations?: Record<string, unknown>;
+    // Aborted when the query is cancelled while the call waits for approval, the pending dialog can then be closed
+    signal?: AbortSignal;
+}
+
+/**
+ * Decision of the approval handler, `arguments` replaces the arguments of an approved call
+ */
+export type ToolApprovalDecision =
+    | { action: "approve", arguments?: any }
+    | { action: "deny", reason?: string };
+
+export type ToolApprovalHandler = (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+
+export interface ToolApprovalOptions {
+    handler?: ToolApprovalHandler;
+    // Policy for tools without a tool or server policy, defaults to `ask` with a handler and `always` without
+    defaultPolicy?: ToolApprovalPolicy;
+    // Policies by service source
+    serverPolicies?: Record<string, ToolApprovalPolicy>;
+    // Policies by tool name, as exposed to the model or as named by its server; these win over server policies
+    toolPolicies?: Record<string, ToolApprovalPolicy>;
+}
+
+/**
+ * Whether a server may request completions through `sampling/createMessage`:
+ * - `always`: answer without asking
+ * - `never`: always refuse
+ * - `ask`: ask the approval handler
+ */
+export type SamplingPolicy = "always" | "never" | "ask";
+
+export type SamplingParams = CreateMessageRequest["params"];
+
+/**
+ * Sampling request waiting for approval, reviewed once before the model is asked and once before the result goes back
+ */
+export type SamplingApprovalRequest =
+    | { stage: "request", serviceSource: string, params: SamplingParams }
+    | { stage: "response", serviceSource: string, params: SamplingParams, result: CreateMessageResult };
+
+/**
+ * Decision of the sampling approval handler, `params` or `result` replace what was reviewed
+ */
+export type SamplingApprovalDecision =
+    | { action: "approve", params?: SamplingParams, result?: CreateMessageResult }
+    | { action: "deny", reason?: string };
+
+export type SamplingApprovalHandler = (request: SamplingApprovalRequest) => Promise<SamplingApprovalDecision>;
+
+/**
+ * Completions requested by servers through `sampling/createMessage`, answered with the configured LLM
+ */
+export interface SamplingOptions {
+    // Advertise the sampling capability to servers, defaults to true
+    enabled?: boolean;
+    handler?: SamplingApprovalHandler;
+    // Policy for servers without a server policy, defaults to `ask` with a handler and `always` without
+    defaultPolicy?: SamplingPolicy;
+    // Policies by service source
+    serverPolicies?: Record<string, SamplingPolicy>;
+    // Further providers a request can select through the name hints of its model preferences
+    providers?: LLMProvider[];
+    // Upper bound for the tokens a server may request
+    maxTokens?: number;
+}
+
+export type MCPResource = Resource & { serviceSource: string };
+
+export type MCPResourceTemplate = ResourceTemplate & { serviceSource: string };
+
+export type MCPResourceReadResult = ReadResourceResult & { serviceSource: string };
+
+export type MCPPrompt = Prompt & { serviceSource: string };
+
+export type MCPPromptResult = GetPromptResult & { serviceSource: string };
+
+/**
+ * Server prompt to start a query from
+ */
+export interface PromptInvocation {
+    name: string;
+    arguments?: Record<string, string>;
+    // Service to get the prompt from, defaults to the service that listed it
+    serviceSource?: string;
+}
+
+/**
+ * Resource to attach to a query, by URI or by URI and providing service
+ */
+export type ResourceAttachment = string | { uri: string, serviceSource?: string };
+
+/**
+ * Emitted when a subscribed resource changes on its server
+ */
+export interface ResourceUpdatedEvent {
+    uri: string;
+    serviceSource: string;
+}
+
+/**
+ * Emitted with the full result of every tool call
+ */
+export interface ToolResultEvent {
+    id?: string;
+    name: string;
+    arguments: any;
+    serviceSource: string;
+    result: CallToolResult;
+}
+
+/**
+ * Emitted when a running tool reports progress, `total` is set when the server knows it
+ */
+export interface ToolProgressEvent {
+    id?: string;
+    name: string;
+    serviceSource: string;
+    progress: number;
+    total?: number;
+    message?: string;
+}
+
+/**
+ * Per-query options for `processQuery` and `processQueryStream`
+ */
+export interface QueryOptions {
+    // Resources whose contents are added to the user message
+    resources?: ResourceAttachment[];
+    // Server prompt whose messages are added before the user message
+    prompt?: PromptInvocation;
+    // Receives the raw result of every tool call made while answering the query
+    onToolResult?: (event: ToolResultEvent) => void;
+    // Receives the progress notifications of running tool calls
+    onToolProgress?: (event: ToolProgressEvent) => void;
+    // Aborts the LLM request and pending tool calls, the query then rejects with an `AbortError`
+    signal?: AbortSignal;
+    // Overrides the client loop limits for this query
+    loopLimits?: LoopLimits;
+    // Restricts the tools of this query in addition to the client tool selection
+    toolFilter?: ToolFilter;
+}
+
+export interface TokenUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+}
+
+/**
+ * Model configuration of `MCPClient`
+ */
+export interface LLMConfig {
+    // OpenAI-compatible endpoint, used when no provider is given
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+    // Provider to send requests to instead of the OpenAI-compatible endpoint
+    provider?: LLMProvider;
+    toolCallMode?: ToolCallMode;
+    // Whether the model accepts images
+    vision?: boolean;
+    // Request `usage` events from streaming responses
+    streamUsage?: boolean;
+}
+
+/**
+ * Request to a model. Messages and tools use the OpenAI chat format, providers translate them for their API
+ */
+export interface LLMRequest {
+    messages: MessageContent[];
+    tools?: FunctionTool[];
+    maxTokens?: number;
+    topP?: number;
+    temperature?: number;
+    signal?: AbortSignal;
+    // Report token usage at the end of a stream
+    includeUsage?: boolean;
+}
+
+/**
+ * Complete response of a model
+ */
+export interface LLMResponse {
+    content: string;
+    reasoning?: string;
+    reasoningBlocks?: ReasoningBlock[];
+    toolCalls: ToolCall[];
+    usage?: TokenUsage;
+}
+
+/**
+ * Piece of a streamed response:
+ * - `text` and `reasoning`: pieces of the message and of the model's reasoning
+ * - `tool_call_start`: a native tool call begins, `index` identifies it in later chunks
+ * - `tool_call_delta`: a piece of the JSON arguments of a tool call
+ * - `reasoning_block`: a complete signed reasoning block to keep on the assistant message
+ * - `usage`: token usage of the request
+ */
+export type LLMStreamChunk =
+    | { type: "text", text: string }
+    | { type: "reasoning", text: string }
+    | { type: "reasoning_block", block: ReasoningBlock }
+    | { type: "tool_call_start", index: number, id: string, name: string }
+    | { type: "tool_call_delta", index: number, arguments: string }
+    | { type: "usage", usage: TokenUsage };
+
+/**
+ * Chat model backend of `MCPClient`
+ */
+export interface LLMProvider {
+    // Model the requests are sent to
+    readonly model: string;
+    complete(request: LLMRequest): Promise<LLMResponse>;
+    stream(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+/**
+ * Events reported while a streaming query runs:
+ * - `text_delta`: a piece of the assistant message
+ * - `reasoning_delta`: a piece of the model reasoning, not part of the message
+ * - `tool_call_started`: the model started a tool call
+ * - `tool_call_args`: a piece of the arguments of a tool call
+ * - `tool_progress`: a running tool call reported progress
+ * - `tool_result`: a tool call finished, `message` is what the model receives
+ * - `tool_error`: a tool call failed, was denied, repeated an earlier call, could not be parsed or had invalid arguments
+ * - `usage`: token usage of one LLM request
+ * - `turn_complete`: an assistant message is complete, with the tool calls it contains
+ */
+export type QueryEvent =
+    | { type: "text_delta", text: string }
+    | { type: "reasoning_delta", text: string }
+    | { type: "tool_call_started", id?: string, name: string }
+    | { type: "tool_call_args", id?: string, name: string, delta: string }
+    | { type: "tool_progress", id?: string, name: string, serviceSource: string, progress: number, total?: number, message?: string }
+    | { type: "tool_result", id?: string, name: string, arguments: any, serviceSource: string, result: CallToolResult, message: MessageContent }
+    | { type: "tool_error", id?: string, name: string, arguments: any, status: "failed" | "denied" | "duplicate" | "invalid", error: string, message: MessageContent }
+    | { type: "usage", usage: TokenUsage }
+    | { type: "turn_complete", content: string, toolCalls: ToolUse[] };
+
+/**
+ * Named conversation with its full message history, including tool calls and results
+ */
+export interface ChatSession {
+    id: string;
+    name: string;
+    messages: MessageContent[];
+    // Milliseconds since the epoch
+    createdAt: number;
+    updatedAt: number;
+    // Session and message index the session was forked from
+    forkedFrom?: { sessionId: string, messageIndex: number };
+}
+
+/**
+ * Session listing without the messages
+ */
+export interface ChatSessionInfo {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    messageCount: number;
+    forkedFrom?: { sessionId: string, messageIndex: number };
+}
+
+/**
+ * Storage backend for chat sessions
+ */
+export interface SessionStorageAdapter {
+    load(id: string): Promise<ChatSession | undefined>;
+    save(session: ChatSession): Promise<void>;
+    delete(id: string): Promise<void>;
+    list(): Promise<ChatSessionInfo[]>;
+}
+
+/**
+ * Versioned JSON document of an exported session
+ */
+export interface ChatSessionExport {
+    version: number;
+    exportedAt: string;
+    session: ChatSession;
 }
\ No newline at end of file
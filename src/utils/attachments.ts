@@ -0,0 +1,146 @@
+import { AttachmentOptions, MessageContentPart, QueryPart } from '../types/index'
+
+const DEFAULT_ATTACHMENT_OPTIONS: Required<AttachmentOptions> = {
+  maxImageBytes: 5 * 1024 * 1024,
+  maxImageDimension: 2048,
+  maxFileBytes: 10 * 1024 * 1024,
+  imageQuality: 0.85
+}
+
+// Each further attempt shrinks an image that is still too large by this factor
+const DOWNSCALE_STEP = 0.75
+const DOWNSCALE_ATTEMPTS = 6
+
+// Files sent as text, identified by type or, for files without a type, by extension
+const TEXT_TYPES = /^text\/|^application\/(json|xml|yaml|x-yaml|javascript|typescript|x-sh|sql|csv)\b|\+(json|xml)$/
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|jsonl|xml|ya?ml|toml|ini|log|html?|css|js|jsx|ts|tsx|py|java|go|rs|c|h|cpp|sh|sql)$/i
+
+const FileName = (blob: Blob): string => {
+  return typeof File !== 'undefined' && blob instanceof File ? blob.name : 'attachment'
+}
+
+/**
+ * Read a Blob as a base64 data URL
+ */
+export const BlobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * Encode an image into a Blob of the given size
+ */
+const EncodeImage = async (image: ImageBitmap, width: number, height: number, type: string, quality: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')!.drawImage(image, 0, 0, width, height)
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Failed to encode image')), type, quality)
+  })
+}
+
+/**
+ * Downscale an image until it fits the dimension and size limits, images within the limits are returned unchanged
+ */
+export const DownscaleImage = async (blob: Blob, options: AttachmentOptions = {}): Promise<Blob> => {
+  const { maxImageBytes, maxImageDimension, imageQuality } = { ...DEFAULT_ATTACHMENT_OPTIONS, ...options }
+  const name = FileName(blob)
+  if (typeof createImageBitmap === 'undefined') {
+    if (blob.size > maxImageBytes) {
+      throw new Error(`Image ${name} is ${blob.size} bytes, larger than the limit of ${maxImageBytes} bytes, and cannot be downscaled here`)
+    }
+    return blob
+  }
+
+  const image = await createImageBitmap(blob)
+  try {
+    let scale = Math.min(1, maxImageDimension / Math.max(image.width, image.height))
+    if (scale === 1 && blob.size <= maxImageBytes) {
+      return blob
+    }
+
+    // PNG keeps transparency, other formats and PNGs that stay too large are encoded as JPEG
+    let type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg'
+    for (let attempt = 0; attempt < DOWNSCALE_ATTEMPTS; attempt++) {
+      const width = Math.max(1, Math.round(image.width * scale))
+      const height = Math.max(1, Math.round(image.height * scale))
+      const encoded = await EncodeImage(image, width, height, type, imageQuality)
+      if (encoded.size <= maxImageBytes) {
+        return encoded
+      }
+      if (type === 'image/png') {
+        type = 'image/jpeg'
+      } else {
+        scale *= DOWNSCALE_STEP
+      }
+    }
+    throw new Error(`Image ${name} could not be downscaled below the limit of ${maxImageBytes} bytes`)
+  } finally {
+    image.close()
+  }
+}
+
+/**
+ * Convert a Blob or File into a content part: images are downscaled, text files are inlined
+ * and other files become file parts
+ */
+export const BlobToContentPart = async (blob: Blob, options: AttachmentOptions = {}): Promise<MessageContentPart> => {
+  const { maxFileBytes } = { ...DEFAULT_ATTACHMENT_OPTIONS, ...options }
+  const name = FileName(blob)
+
+  if (blob.type.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: await BlobToDataUrl(await DownscaleImage(blob, options)) } }
+  }
+
+  if (blob.size > maxFileBytes) {
+    throw new Error(`File ${name} is ${blob.size} bytes, larger than the limit of ${maxFileBytes} bytes`)
+  }
+  if (TEXT_TYPES.test(blob.type) || (!blob.type && TEXT_EXTENSIONS.test(name))) {
+    return { type: 'text', text: `Here is the content of attached file: ${name}\n${await blob.text()}` }
+  }
+  return { type: 'file', file: { filename: name, file_data: await BlobToDataUrl(blob) } }
+}
+
+/**
+ * Build the content of a user message from a query, converting Blobs and data URL images within the limits
+ * @returns The query itself when it is text, otherwise its content parts
+ */
+export const BuildQueryContent = async (query: string | QueryPart[], options: AttachmentOptions = {}): Promise<string | MessageContentPart[]> => {
+  if (typeof query === 'string') {
+    return query
+  }
+
+  const parts: MessageContentPart[] = []
+  for (const part of query) {
+    if (typeof part === 'string') {
+      parts.push({ type: 'text', text: part })
+    } else if (part instanceof Blob) {
+      parts.push(await BlobToContentPart(part, options))
+    } else if (part.type === 'image_url' && part.image_url.url.startsWith('data:')) {
+      // Remote image URLs are passed on as they are, data URLs are held to the same limits as Blobs
+      const blob = await (await fetch(part.image_url.url)).blob()
+      parts.push(await BlobToContentPart(blob, options))
+    } else {
+      parts.push(part)
+    }
+  }
+  return parts
+}
+
+/**
+ * Text of a query, without its images and files
+ */
+export const QueryText = (query: string | QueryPart[]): string => {
+  if (typeof query === 'string') {
+    return query
+  }
+  return query
+    .map((part) => typeof part === 'string' ? part : !(part instanceof Blob) && part.type === 'text' ? part.text : '')
+    .filter(Boolean)
+    .join('\n')
+}
\ No newline at end of file
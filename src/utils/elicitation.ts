@@ -0,0 +1,17 @@
+import { z } from 'zod'
+import { RequestSchema } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * Server request for user input while a tool runs, the SDK version in use predates elicitation
+ */
+export const ElicitRequestSchema = RequestSchema.extend({
+  method: z.literal('elicitation/create'),
+  params: z.object({
+    message: z.string(),
+    requestedSchema: z.object({
+      type: z.literal('object'),
+      properties: z.record(z.object({ type: z.string() }).passthrough()),
+      required: z.array(z.string()).optional()
+    }).passthrough()
+  }).passthrough()
+})
\ No newline at end of file
@@ -1 +1,8 @@
-export * from './prompt'
\ No newline at end of file
+export * from './prompt'
+export * from './tools'
+export * from './resources'
+export * from './messages'
+export * from './tool-use-parser'
+export * from './schema'
+export * from './elicitation'
+export * from './attachments'
\ No newline at end of file
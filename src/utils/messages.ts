@@ -0,0 +1,32 @@
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js'
+import { MessageContent } from '../types/index'
+import { FormatResourceContents } from './resources'
+
+/**
+ * Convert messages of a server prompt into chat messages, keeping their roles.
+ * Images of user messages are sent as image parts when the model accepts images, other media become placeholders
+ */
+export const ConvertPromptMessages = (messages: PromptMessage[], vision: boolean = false): MessageContent[] => {
+  return messages.map((message) => {
+    const content = message.content
+    let text: string
+    switch (content.type) {
+      case 'text':
+        text = String(content.text)
+        break
+      case 'resource':
+        text = FormatResourceContents([content.resource as any])
+        break
+      case 'image':
+        // Only user messages carry images in the chat completion formats
+        if (vision && message.role === 'user') {
+          return { role: message.role, content: [{ type: 'image_url', image_url: { url: `data:${content.mimeType};base64,${content.data}` } }] }
+        }
+        text = `[image content (${content.mimeType})]`
+        break
+      default:
+        text = `[${content.type} content${content.mimeType ? ` (${content.mimeType})` : ''}]`
+    }
+    return { role: message.role, content: text }
+  })
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { MCPTool } from '../types/index'
+import { MCPTool, SystemPromptOptions, SystemPromptTemplate } from '../types/index'
+import { SYSTEM_PROMPT_ZH, ToolUseExamplesZh } from './prompt-zh'
 
 export const SYSTEM_PROMPT = `In this environment you have access to a set of tools you can use to answer the user's question. \
 You can use one tool per message, and will receive the result of that tool use in the user's response. You use tools step-by-step to accomplish a given task, with each tool use informed by the result of the previous tool use.
@@ -53,7 +54,7 @@ Here are the rules you should always follow to solve your task:
 # User Instructions
 {{ USER_SYSTEM_PROMPT }}
 
-Now Begin! If you solve the task correctly, you will receive a reward of $1,000,000.
+Now Begin!
 `
 
 export const ToolUseExamples = `
@@ -128,15 +129,44 @@ User: <tool_use_result>
 Assistant: The population of Shanghai is 26 million, while Guangzhou has a population of 15 million. Therefore, Shanghai has the highest population.
 `
 
+/**
+ * Built-in templates by locale
+ */
+export const SystemPromptTemplates: Record<string, SystemPromptTemplate> = {
+  en: { template: SYSTEM_PROMPT, examples: ToolUseExamples },
+  zh: { template: SYSTEM_PROMPT_ZH, examples: ToolUseExamplesZh }
+}
+
+/**
+ * Escape text for XML element content, dropping control characters that have no place in a prompt
+ */
+export const EscapeXml = (text: string): string => {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+/**
+ * Serialize a value as JSON that cannot close or open XML tags, the escapes keep it valid JSON
+ */
+const SafeJson = (value: unknown): string => {
+  return JSON.stringify(value)
+    .replace(/&/g, '\\u0026')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+}
+
 export const AvailableTools = (tools: MCPTool[]) => {
   const availableTools = tools
     .map((tool) => {
       return `
 <tool>
-  <name>${tool.name}</name>
-  <description>${tool.description}</description>
+  <name>${EscapeXml(tool.name)}</name>
+  <description>${EscapeXml(tool.description || '')}</description>
   <arguments>
-    ${tool.inputSchema ? JSON.stringify(tool.inputSchema) : ''}
+    ${tool.inputSchema ? SafeJson(tool.inputSchema) : ''}
   </arguments>
 </tool>
 `
@@ -147,14 +177,37 @@ ${availableTools}
 </tools>`
 }
 
-const BuildSystemPrompt = (userSystemPrompt: string, tools: MCPTool[]): string => {
-  if (tools && tools.length > 0) {
-    return SYSTEM_PROMPT.replace('{{ USER_SYSTEM_PROMPT }}', userSystemPrompt)
-      .replace('{{ TOOL_USE_EXAMPLES }}', ToolUseExamples)
-      .replace('{{ AVAILABLE_TOOLS }}', AvailableTools(tools))
+/**
+ * Fill the placeholders of a template, replacement values are inserted literally
+ */
+const FillTemplate = (template: string, values: Record<string, string>): string => {
+  return template.replace(/\{\{ (\w+) \}\}/g, (placeholder, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : placeholder
+  )
+}
+
+/**
+ * Build the system prompt of prompt mode. Without tools the user system prompt is returned unchanged,
+ * so the template only appears when there is something to call
+ * @param userSystemPrompt User system prompt, inserted at `{{ USER_SYSTEM_PROMPT }}`
+ * @param tools Tools inserted at `{{ AVAILABLE_TOOLS }}`
+ * @param options Locale, template, examples and tool rendering
+ */
+const BuildSystemPrompt = (userSystemPrompt: string, tools: MCPTool[], options: SystemPromptOptions = {}): string => {
+  if (!tools || tools.length === 0) {
+    return userSystemPrompt || ''
   }
 
-  return userSystemPrompt
+  const locale = SystemPromptTemplates[options.locale || 'en']
+    || SystemPromptTemplates[(options.locale || '').split('-')[0]]
+    || SystemPromptTemplates.en
+  const renderTools = options.renderTools || AvailableTools
+
+  return FillTemplate(options.template ?? locale.template, {
+    USER_SYSTEM_PROMPT: userSystemPrompt || '',
+    TOOL_USE_EXAMPLES: options.examples ?? locale.examples,
+    AVAILABLE_TOOLS: renderTools(tools)
+  })
 }
 
 export default BuildSystemPrompt
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { BlobResourceContents, TextResourceContents } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * Render resource contents as text the model can read
+ */
+export const FormatResourceContents = (contents: Array<TextResourceContents | BlobResourceContents>): string => {
+  return contents
+    .map((item) => {
+      const body = typeof item.text === 'string'
+        ? item.text
+        : `[binary content, ${String(item.blob || '').length} base64 characters]`
+      return `<resource>
+  <uri>${item.uri}</uri>
+  <mime_type>${item.mimeType || 'unknown'}</mime_type>
+  <content>${body}</content>
+</resource>`
+    })
+    .join('\n')
+}
\ No newline at end of file
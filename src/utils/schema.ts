@@ -0,0 +1,222 @@
+export interface ArgumentValidationError {
+  // Dotted path of the invalid field, empty for the arguments object itself
+  path: string
+  message: string
+}
+
+export interface ArgumentValidationResult {
+  valid: boolean
+  // Arguments after coercion
+  value: any
+  errors: ArgumentValidationError[]
+}
+
+type JSONSchema = Record<string, any> | boolean
+
+interface ValidationContext {
+  coerce: boolean
+  errors: ArgumentValidationError[]
+}
+
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer'
+  }
+  return typeof value
+}
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'null':
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
+
+/**
+ * Convert values models commonly send with the wrong type, such as numeric strings
+ * @returns The converted value, or undefined when there is no safe conversion
+ */
+const coerceValue = (value: unknown, type: string): unknown => {
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    if ((type === 'number' || type === 'integer') && trimmed !== '' && !isNaN(Number(trimmed))) {
+      return Number(trimmed)
+    }
+    if (type === 'boolean' && (trimmed === 'true' || trimmed === 'false')) {
+      return trimmed === 'true'
+    }
+  }
+  if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    return String(value)
+  }
+  return undefined
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b)
+
+const childPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`
+  }
+  return path ? `${path}.${key}` : key
+}
+
+const validateValue = (schema: JSONSchema, value: any, path: string, context: ValidationContext): any => {
+  if (schema === true || schema === undefined || schema === null) {
+    return value
+  }
+  if (schema === false) {
+    context.errors.push({ path, message: 'is not allowed' })
+    return value
+  }
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    const coerced = context.coerce
+      ? types.map((type) => coerceValue(value, type)).find((candidate, i) => candidate !== undefined && matchesType(candidate, types[i]))
+      : undefined
+    if (coerced === undefined) {
+      context.errors.push({ path, message: `must be ${types.join(' or ')}, got ${describeType(value)}` })
+      return value
+    }
+    value = coerced
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => isEqual(option, value))) {
+    context.errors.push({ path, message: `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}` })
+  }
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    context.errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` })
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      context.errors.push({ path, message: `must be at least ${schema.minLength} characters long` })
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      context.errors.push({ path, message: `must be at most ${schema.maxLength} characters long` })
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          context.errors.push({ path, message: `must match the pattern ${schema.pattern}` })
+        }
+      } catch (e) {
+        // Patterns JavaScript cannot compile are left to the server
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      context.errors.push({ path, message: `must be at least ${schema.minimum}` })
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      context.errors.push({ path, message: `must be at most ${schema.maximum}` })
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      context.errors.push({ path, message: `must be greater than ${schema.exclusiveMinimum}` })
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      context.errors.push({ path, message: `must be less than ${schema.exclusiveMaximum}` })
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      context.errors.push({ path, message: `must have at least ${schema.minItems} items` })
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      context.errors.push({ path, message: `must have at most ${schema.maxItems} items` })
+    }
+    if (schema.items && !Array.isArray(schema.items)) {
+      value = value.map((item, i) => validateValue(schema.items, item, childPath(path, i), context))
+    }
+  }
+
+  if (matchesType(value, 'object')) {
+    const properties: Record<string, JSONSchema> = schema.properties || {}
+    const result: Record<string, any> = { ...value }
+    for (const name of Array.isArray(schema.required) ? schema.required : []) {
+      if (value[name] === undefined) {
+        context.errors.push({ path: childPath(path, name), message: 'is required' })
+      }
+    }
+    for (const [name, item] of Object.entries(value)) {
+      if (name in properties) {
+        result[name] = validateValue(properties[name], item, childPath(path, name), context)
+      } else if (schema.additionalProperties === false) {
+        context.errors.push({ path: childPath(path, name), message: 'is not an allowed property' })
+      } else if (typeof schema.additionalProperties === 'object') {
+        result[name] = validateValue(schema.additionalProperties, item, childPath(path, name), context)
+      }
+    }
+    value = result
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const option of schema.allOf) {
+      value = validateValue(option, value, path, context)
+    }
+  }
+
+  const alternatives = schema.anyOf || schema.oneOf
+  if (Array.isArray(alternatives)) {
+    const match = alternatives
+      .map((option: JSONSchema) => {
+        const optionContext = { coerce: context.coerce, errors: [] }
+        return { value: validateValue(option, value, path, optionContext), errors: optionContext.errors }
+      })
+      .find((attempt) => attempt.errors.length === 0)
+    if (match) {
+      value = match.value
+    } else {
+      context.errors.push({ path, message: 'does not match any of the allowed schemas' })
+    }
+  }
+
+  return value
+}
+
+/**
+ * Validate tool arguments against the tool's input schema
+ * @param schema JSON Schema of the tool input
+ * @param args Arguments from the model
+ * @param options `coerce` converts numeric and boolean strings to the type the schema expects
+ */
+export const ValidateToolArguments = (schema: JSONSchema | undefined, args: any, options: { coerce?: boolean } = {}): ArgumentValidationResult => {
+  if (typeof args === 'string') {
+    return {
+      valid: false,
+      value: args,
+      errors: [{ path: '', message: 'must be a JSON object, the arguments are not valid JSON' }]
+    }
+  }
+
+  const context: ValidationContext = { coerce: options.coerce || false, errors: [] }
+  const value = validateValue(schema || { type: 'object' }, args ?? {}, '', context)
+  return { valid: context.errors.length === 0, value, errors: context.errors }
+}
+
+/**
+ * Render validation errors as one line per field
+ */
+export const FormatValidationErrors = (errors: ArgumentValidationError[]): string => {
+  return errors.map((error) => `${error.path || 'arguments'} ${error.message}`).join('\n')
+}
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { ToolUse } from '../types/index'
+
+const TOOL_USE_OPEN = '<tool_use>'
+const TOOL_USE_CLOSE = '</tool_use>'
+const THINK_OPEN = '<think>'
+const THINK_CLOSE = '</think>'
+
+export type ToolUseParseEvent =
+  | { type: 'text', text: string }
+  | { type: 'tool_use', toolUse: ToolUse }
+  | { type: 'tool_use_error', name?: string, error: string, raw: string }
+
+/**
+ * Parse the content of a `<tool_use>` block
+ */
+export const ParseToolUseBlock = (inner: string): ToolUseParseEvent => {
+  const raw = TOOL_USE_OPEN + inner + TOOL_USE_CLOSE
+  const match = /^\s*<name>([\s\S]*?)<\/name>\s*<arguments>([\s\S]*?)<\/arguments>\s*$/.exec(inner)
+  if (!match) {
+    return {
+      type: 'tool_use_error',
+      error: 'Malformed <tool_use> block: expected <name>...</name> followed by <arguments>...</arguments>',
+      raw
+    }
+  }
+
+  const name = match[1].trim()
+  if (!name) {
+    return { type: 'tool_use_error', error: 'Malformed <tool_use> block: the tool name is empty', raw }
+  }
+
+  const argsStr = match[2].trim()
+  if (!argsStr) {
+    return { type: 'tool_use', toolUse: { name, arguments: {} } }
+  }
+  try {
+    return { type: 'tool_use', toolUse: { name, arguments: JSON.parse(argsStr) } }
+  } catch (e) {
+    return {
+      type: 'tool_use_error',
+      name,
+      error: `Invalid JSON in <arguments> of tool ${name}: ${e instanceof Error ? e.message : e}`,
+      raw
+    }
+  }
+}
+
+/**
+ * Incremental parser that separates `<tool_use>` blocks from the visible text of a streamed message.
+ * Text inside `<think>` blocks is passed through as text and never parsed as tool use.
+ */
+export class ToolUseStreamParser {
+  private buffer = ''
+  private state: 'text' | 'think' | 'tool_use' = 'text'
+
+  /**
+   * Feed the next chunk of the message
+   * @returns Visible text, and every tool use whose closing tag arrived with this chunk
+   */
+  push(chunk: string): ToolUseParseEvent[] {
+    this.buffer += chunk
+    const events: ToolUseParseEvent[] = []
+
+    while (true) {
+      if (this.state === 'tool_use') {
+        const end = this.buffer.indexOf(TOOL_USE_CLOSE)
+        if (end < 0) {
+          break
+        }
+        events.push(ParseToolUseBlock(this.buffer.slice(0, end)))
+        this.buffer = this.buffer.slice(end + TOOL_USE_CLOSE.length)
+        this.state = 'text'
+        continue
+      }
+
+      const tags = this.state === 'think' ? [THINK_CLOSE] : [TOOL_USE_OPEN, THINK_OPEN]
+      const found = tags
+        .map((tag) => ({ tag, index: this.buffer.indexOf(tag) }))
+        .filter((candidate) => candidate.index >= 0)
+        .sort((a, b) => a.index - b.index)[0]
+
+      if (!found) {
+        // Hold back a trailing partial tag until the next chunk completes or rules it out
+        const keep = ToolUseStreamParser.partialTagLength(this.buffer, tags)
+        this.pushText(events, this.buffer.slice(0, this.buffer.length - keep))
+        this.buffer = this.buffer.slice(this.buffer.length - keep)
+        break
+      }
+
+      const before = this.buffer.slice(0, found.index)
+      this.buffer = this.buffer.slice(found.index + found.tag.length)
+      if (found.tag === TOOL_USE_OPEN) {
+        this.pushText(events, before)
+        this.state = 'tool_use'
+      } else {
+        this.pushText(events, before + found.tag)
+        this.state = found.tag === THINK_OPEN ? 'think' : 'text'
+      }
+    }
+
+    return events
+  }
+
+  /**
+   * Flush the rest of the message once the stream has ended
+   * @returns Remaining text, or an error for a tool use block that was never closed
+   */
+  end(): ToolUseParseEvent[] {
+    const events: ToolUseParseEvent[] = []
+    if (this.state === 'tool_use') {
+      events.push({
+        type: 'tool_use_error',
+        error: 'Truncated <tool_use> block: the closing </tool_use> tag is missing',
+        raw: TOOL_USE_OPEN + this.buffer
+      })
+    } else {
+      this.pushText(events, this.buffer)
+    }
+    this.buffer = ''
+    this.state = 'text'
+    return events
+  }
+
+  private pushText(events: ToolUseParseEvent[], text: string) {
+    if (text) {
+      events.push({ type: 'text', text })
+    }
+  }
+
+  private static partialTagLength(text: string, tags: string[]): number {
+    for (let length = Math.min(text.length, Math.max(...tags.map((tag) => tag.length)) - 1); length > 0; length--) {
+      const suffix = text.slice(text.length - length)
+      if (tags.some((tag) => tag.startsWith(suffix))) {
+        return length
+      }
+    }
+    return 0
+  }
+}
\ No newline at end of file
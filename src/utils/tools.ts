@@ -0,0 +1,114 @@
+import { z } from 'zod'
+import { CallToolResult, CompatibilityCallToolResultSchema, ResultSchema } from '@modelcontextprotocol/sdk/types.js'
+import { FunctionTool, MCPTool, MessageContentPart } from '../types/index'
+import { FormatResourceContents } from './resources'
+
+/**
+ * Convert MCP tools into OpenAI function definitions
+ */
+export const BuildFunctionTools = (tools: MCPTool[]): FunctionTool[] => {
+  return tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: {
+        ...tool.inputSchema,
+        type: 'object',
+        properties: tool.inputSchema?.properties || {}
+      }
+    }
+  }))
+}
+
+/**
+ * Parse tool call arguments, falling back to the raw string when they are not valid JSON
+ */
+export const ParseToolArguments = (raw: string): any => {
+  if (!raw || !raw.trim()) {
+    return {}
+  }
+  try {
+    return JSON.parse(raw)
+  } catch (e) {
+    return raw
+  }
+}
+
+/**
+ * Convert the return value of a local tool handler into a tool call result
+ */
+export const ToLocalToolResult = (value: unknown): CallToolResult => {
+  if (value && typeof value === 'object' && Array.isArray((value as CallToolResult).content)) {
+    return value as CallToolResult
+  }
+  const text = typeof value === 'string' ? value : value === undefined ? '' : JSON.stringify(value, null, 2)
+  return { content: [{ type: 'text', text }] }
+}
+
+/**
+ * Tool call result schema that keeps content types unknown to the SDK, such as `resource_link`
+ */
+export const ToolResultSchema = ResultSchema.extend({
+  content: z.array(z.object({ type: z.string() }).passthrough()),
+  structuredContent: z.record(z.unknown()).optional(),
+  isError: z.boolean().optional()
+}).or(CompatibilityCallToolResultSchema)
+
+export interface FormattedToolResult {
+  text: string
+  images: MessageContentPart[]
+  isError: boolean
+}
+
+/**
+ * Render every part of a tool result for the model
+ * @param result Tool call result
+ * @param vision Whether images can be sent to the model as image parts
+ */
+export const FormatToolResult = (result: CallToolResult, vision: boolean = false): FormattedToolResult => {
+  const texts: string[] = []
+  const images: MessageContentPart[] = []
+
+  if (!Array.isArray(result.content)) {
+    // Servers on protocol 2024-10-07 return `toolResult` instead of content
+    texts.push(JSON.stringify('toolResult' in result ? result.toolResult : result))
+  }
+
+  for (const part of (result.content || []) as any[]) {
+    switch (part.type) {
+      case 'text':
+        texts.push(part.text)
+        break
+      case 'image':
+        if (vision) {
+          images.push({ type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } })
+          texts.push(`[image ${images.length} (${part.mimeType}) attached]`)
+        } else {
+          texts.push(`[image (${part.mimeType}) omitted: the model does not accept images]`)
+        }
+        break
+      case 'audio':
+        texts.push(`[audio (${part.mimeType}) omitted: the model does not accept audio]`)
+        break
+      case 'resource':
+        texts.push(FormatResourceContents([part.resource]))
+        break
+      case 'resource_link':
+        texts.push(`<resource_link>
+  <uri>${part.uri}</uri>
+  <name>${part.name || ''}</name>
+  <mime_type>${part.mimeType || 'unknown'}</mime_type>
+</resource_link>`)
+        break
+      default:
+        texts.push(JSON.stringify(part))
+    }
+  }
+
+  if (result.structuredContent !== undefined) {
+    texts.push(`<structured_content>${JSON.stringify(result.structuredContent)}</structured_content>`)
+  }
+
+  return { text: texts.join('\n\n'), images, isError: result.isError === true }
+}
\ No newline at end of file